@@ -0,0 +1,365 @@
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { dirname, join } from "node:path";
+import { ACCESS_FILE, DATA_DIR } from "./docs";
+
+// ---------------------------------------------------------------------------
+// Rules
+// ---------------------------------------------------------------------------
+//
+// Two sources, merged into one AccessRules on load:
+//
+//   docs/.access.json  — the original hand-edited format, slug → token[].
+//   data/tokens.json   — the token store behind /admin/tokens: labelled
+//                        tokens with scopes, permissions and expiry, glob
+//                        patterns marking groups of docs as restricted, and
+//                        a revocation list that applies to both sources.
+//
+// A document is restricted if .access.json lists it or a restricted pattern
+// matches it; everything else is public.
+
+const TOKENS_FILE = join(DATA_DIR, "tokens.json");
+const ACCESS_LOG = join(DATA_DIR, "access.log");
+
+export type Permission = "read" | "chat" | "edit" | "admin";
+
+// Chat spending limits in USD. Days and months are UTC.
+export interface Budget {
+  daily?: number;
+  monthly?: number;
+}
+
+export interface ShareToken {
+  id: string; // public handle, safe to log and show
+  token: string;
+  label: string;
+  scopes: string[]; // slugs or globs: "notes", "projects/alpha/", "projects/**"
+  permissions: Permission[];
+  created: string;
+  expires?: string; // ISO date
+  budget?: Budget; // for chat tokens; unset limits fall back to the server defaults
+}
+
+export interface TokenStore {
+  restricted: string[]; // glob patterns of restricted docs
+  tokens: ShareToken[];
+  revoked: string[]; // token ids
+}
+
+export interface AccessRules {
+  legacy: Record<string, string[]>; // slug → list of allowed tokens
+  store: TokenStore;
+}
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+const EMPTY_STORE: TokenStore = { restricted: [], tokens: [], revoked: [] };
+
+// Each file is re-parsed only when its mtime changes; a stat is much cheaper
+// than a read + JSON.parse on every request.
+const fileCache = new Map<string, { mtimeMs: number; data: unknown }>();
+
+async function readJson<T>(path: string, fallback: T): Promise<T> {
+  try {
+    const st = await stat(path);
+    const cached = fileCache.get(path);
+    if (cached?.mtimeMs === st.mtimeMs) return cached.data as T;
+    const data = JSON.parse(await readFile(path, "utf-8")) as T;
+    fileCache.set(path, { mtimeMs: st.mtimeMs, data });
+    return data;
+  } catch {
+    fileCache.delete(path);
+    return fallback;
+  }
+}
+
+export async function loadAccess(): Promise<AccessRules> {
+  const legacy = await readJson<Record<string, string[]>>(ACCESS_FILE, {});
+  const store = await readJson<Partial<TokenStore>>(TOKENS_FILE, EMPTY_STORE);
+  return {
+    legacy,
+    store: {
+      restricted: store.restricted ?? [],
+      tokens: store.tokens ?? [],
+      revoked: store.revoked ?? [],
+    },
+  };
+}
+
+/** True if any rule restricts anything — listings then differ between viewers. */
+export function hasRules(rules: AccessRules): boolean {
+  return Object.keys(rules.legacy).length > 0 || rules.store.restricted.length > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+const globCache = new Map<string, InstanceType<typeof Bun.Glob>>();
+
+/** "projects/alpha/" covers the folder; globs use Bun.Glob syntax. */
+export function scopeMatches(scope: string, slug: string): boolean {
+  const pattern = scope.endsWith("/") ? `${scope}**` : scope;
+  if (pattern === slug) return true;
+  let glob = globCache.get(pattern);
+  if (!glob) globCache.set(pattern, (glob = new Bun.Glob(pattern)));
+  return glob.match(slug);
+}
+
+export function isRestricted(slug: string, rules: AccessRules): boolean {
+  return slug in rules.legacy || rules.store.restricted.some((p) => scopeMatches(p, slug));
+}
+
+function digest(s: string): Buffer {
+  return createHash("sha256").update(s).digest();
+}
+
+/** Constant-time string comparison (hashing first evens out the lengths). */
+export function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/** Stable public id for a token from .access.json, which has none of its own. */
+function legacyId(token: string): string {
+  return "legacy-" + digest(token).toString("hex").slice(0, 8);
+}
+
+/**
+ * Look up the presented token. ADMIN_TOKEN from the environment resolves to
+ * an admin token; legacy tokens become read-only tokens scoped to the slugs
+ * they're listed under. Expired and revoked tokens resolve to
+ * null, same as unknown ones.
+ */
+export function resolveToken(token: string | null, rules: AccessRules): ShareToken | null {
+  if (!token) return null;
+  if (ADMIN_TOKEN && safeEqual(token, ADMIN_TOKEN)) {
+    return { id: "admin", token, label: "admin", scopes: [], permissions: ["read", "chat", "edit", "admin"], created: "" };
+  }
+  const revoked = new Set(rules.store.revoked);
+  const now = Date.now();
+
+  for (const t of rules.store.tokens) {
+    if (!safeEqual(t.token, token)) continue;
+    if (revoked.has(t.id)) return null;
+    if (t.expires && Date.parse(t.expires) <= now) return null;
+    return t;
+  }
+
+  const scopes = Object.keys(rules.legacy).filter((slug) => rules.legacy[slug].some((t) => safeEqual(t, token)));
+  if (scopes.length === 0) return null;
+  const id = legacyId(token);
+  if (revoked.has(id)) return null;
+  return { id, token, label: "legacy (.access.json)", scopes, permissions: ["read"], created: "" };
+}
+
+export function hasPermission(t: ShareToken | null, permission: Permission): boolean {
+  if (!t) return false;
+  // admin implies everything; any token can read what it's scoped to
+  return t.permissions.includes("admin") || permission === "read" || t.permissions.includes(permission);
+}
+
+/** Whether some credential here can chat: ADMIN_TOKEN, or a live token with chat permission. */
+export function anyoneCanChat(rules: AccessRules): boolean {
+  if (ADMIN_TOKEN) return true;
+  const revoked = new Set(rules.store.revoked);
+  const now = Date.now();
+  return rules.store.tokens.some(
+    (t) => hasPermission(t, "chat") && !revoked.has(t.id) && !(t.expires && Date.parse(t.expires) <= now),
+  );
+}
+
+export function canAccess(slug: string, token: string | null, rules: AccessRules): boolean {
+  if (!isRestricted(slug, rules)) return true; // not restricted → public
+  const t = resolveToken(token, rules);
+  if (!t) return false;
+  return t.permissions.includes("admin") || t.scopes.some((scope) => scopeMatches(scope, slug));
+}
+
+/** Changing a doc takes edit permission and a scope covering it, whether or not it's restricted. */
+export function canEdit(slug: string, token: string | null, rules: AccessRules): boolean {
+  const t = resolveToken(token, rules);
+  if (!t || !hasPermission(t, "edit")) return false;
+  return t.permissions.includes("admin") || t.scopes.some((scope) => scopeMatches(scope, slug));
+}
+
+export function getToken(req: Request, url: URL): string | null {
+  return (
+    url.searchParams.get("t") ||
+    req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ||
+    readSession(req) ||
+    null
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+//
+// Opening a ?t= link trades the token for an HttpOnly cookie and redirects
+// to the clean URL, so the token survives navigation but stays out of the URL
+// bar, history and Referer headers. The cookie carries the token itself,
+// HMAC-signed, so revocation and expiry keep applying to live sessions.
+
+const SESSION_COOKIE = "md_session";
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // seconds
+const SECRET_FILE = join(DATA_DIR, "session.key");
+
+// Persisted so a restart doesn't sign everyone out. SESSION_SECRET overrides.
+async function loadSessionSecret(): Promise<Buffer> {
+  if (process.env.SESSION_SECRET) return Buffer.from(process.env.SESSION_SECRET);
+  try {
+    return await readFile(SECRET_FILE);
+  } catch {
+    const secret = randomBytes(32);
+    await mkdir(DATA_DIR, { recursive: true });
+    await writeFile(SECRET_FILE, secret, { mode: 0o600 });
+    return secret;
+  }
+}
+
+const sessionSecret = await loadSessionSecret();
+
+function sign(payload: string): string {
+  return createHmac("sha256", sessionSecret).update(payload).digest("base64url");
+}
+
+function cookieAttributes(secure: boolean, maxAge: number): string {
+  return ["Path=/", "HttpOnly", "SameSite=Lax", `Max-Age=${maxAge}`, ...(secure ? ["Secure"] : [])].join("; ");
+}
+
+export function sessionCookie(token: string, secure: boolean): string {
+  const payload = Buffer.from(JSON.stringify({ t: token, exp: Date.now() + SESSION_MAX_AGE * 1000 })).toString("base64url");
+  return `${SESSION_COOKIE}=${payload}.${sign(payload)}; ${cookieAttributes(secure, SESSION_MAX_AGE)}`;
+}
+
+export function clearSessionCookie(secure: boolean): string {
+  return `${SESSION_COOKIE}=; ${cookieAttributes(secure, 0)}`;
+}
+
+/** The token in a valid, unexpired session cookie, if any. */
+function readSession(req: Request): string | null {
+  const cookies = req.headers.get("cookie") ?? "";
+  const raw = cookies
+    .split(";")
+    .map((c) => c.trim())
+    .find((c) => c.startsWith(`${SESSION_COOKIE}=`))
+    ?.slice(SESSION_COOKIE.length + 1);
+  if (!raw) return null;
+
+  const [payload, sig] = raw.split(".");
+  if (!payload || !sig || !safeEqual(sig, sign(payload))) return null;
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (typeof session.t !== "string" || typeof session.exp !== "number" || session.exp <= Date.now()) return null;
+    return session.t;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Token store
+// ---------------------------------------------------------------------------
+
+async function saveStore(store: TokenStore): Promise<void> {
+  await mkdir(dirname(TOKENS_FILE), { recursive: true });
+  // write-then-rename so a crash never leaves a half-written store
+  const tmp = `${TOKENS_FILE}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(store, null, 2) + "\n", { mode: 0o600 });
+  await rename(tmp, TOKENS_FILE);
+  fileCache.delete(TOKENS_FILE);
+}
+
+export interface MintOptions {
+  label: string;
+  scopes: string[];
+  permissions: Permission[];
+  expires?: string;
+  budget?: Budget;
+}
+
+export async function mintToken(opts: MintOptions): Promise<ShareToken> {
+  const { store } = await loadAccess();
+  const t: ShareToken = {
+    id: randomBytes(4).toString("hex"),
+    token: "tok_" + randomBytes(16).toString("hex"),
+    label: opts.label,
+    scopes: opts.scopes,
+    permissions: opts.permissions,
+    created: new Date().toISOString(),
+    ...(opts.expires ? { expires: opts.expires } : {}),
+    ...(opts.budget ? { budget: opts.budget } : {}),
+  };
+  await saveStore({ ...store, tokens: [...store.tokens, t] });
+  return t;
+}
+
+export async function revokeToken(id: string): Promise<void> {
+  const { store } = await loadAccess();
+  if (store.revoked.includes(id)) return;
+  await saveStore({ ...store, revoked: [...store.revoked, id] });
+}
+
+/** Replace a stored token's chat budget. Returns false if there's no such token. */
+export async function setBudget(id: string, budget: Budget): Promise<boolean> {
+  const { store } = await loadAccess();
+  if (!store.tokens.some((t) => t.id === id)) return false;
+  await saveStore({ ...store, tokens: store.tokens.map((t) => (t.id === id ? { ...t, budget } : t)) });
+  return true;
+}
+
+export async function setRestricted(patterns: string[]): Promise<void> {
+  const { store } = await loadAccess();
+  await saveStore({ ...store, restricted: patterns });
+}
+
+/** Every known token — stored and legacy — for the admin page. */
+export function listTokens(rules: AccessRules): ShareToken[] {
+  const legacy = new Map<string, ShareToken>();
+  for (const [slug, tokens] of Object.entries(rules.legacy)) {
+    for (const token of tokens) {
+      const entry = legacy.get(token);
+      if (entry) entry.scopes.push(slug);
+      else legacy.set(token, { id: legacyId(token), token, label: "legacy (.access.json)", scopes: [slug], permissions: ["read"], created: "" });
+    }
+  }
+  return [...rules.store.tokens, ...legacy.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Access log
+// ---------------------------------------------------------------------------
+
+export interface AccessLogEntry {
+  time: string;
+  token: string | null; // token id, never the secret
+  label: string | null;
+  path: string;
+  ip: string | null;
+  allowed: boolean;
+}
+
+/** Append one JSON line to data/access.log. Logging never fails a request. */
+export async function logAccess(entry: Omit<AccessLogEntry, "time">): Promise<void> {
+  try {
+    await mkdir(dirname(ACCESS_LOG), { recursive: true });
+    await appendFile(ACCESS_LOG, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n");
+  } catch (err) {
+    console.error("access log:", err);
+  }
+}
+
+const LOG_TAIL_BYTES = 256 * 1024;
+
+/** The most recent entries, newest first. Only the tail of the file is read. */
+export async function readAccessLog(limit: number): Promise<AccessLogEntry[]> {
+  try {
+    const file = Bun.file(ACCESS_LOG);
+    const start = Math.max(0, file.size - LOG_TAIL_BYTES);
+    const lines = (await file.slice(start).text()).split("\n");
+    if (start > 0) lines.shift(); // partial first line
+    return lines.filter(Boolean).slice(-limit).reverse().map((line) => JSON.parse(line));
+  } catch {
+    return [];
+  }
+}
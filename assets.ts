@@ -0,0 +1,124 @@
+import { readFile } from "node:fs/promises";
+import { posix } from "node:path";
+import { Lexer } from "marked";
+import { canAccess, isRestricted, type AccessRules } from "./access";
+import { listDocs, resolveInDocs, slugDir } from "./docs";
+import { parseFrontMatter } from "./frontmatter";
+
+export const ASSET_EXT: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+};
+
+export function assetExt(path: string): string {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  return name.includes(".") ? name.slice(name.lastIndexOf(".")).toLowerCase() : "";
+}
+
+// ---------------------------------------------------------------------------
+// References
+// ---------------------------------------------------------------------------
+//
+// Which documents embed or link to which assets, so a figure in a private doc
+// is as private as the doc. Rebuilt per document only when its mtime changes.
+
+const refsByDoc = new Map<string, { mtime: number; assets: string[] }>(); // slug → asset paths
+
+/**
+ * Resolve an image or link target the way the browser would from the doc's
+ * URL, relative to docs/. Returns null for remote URLs and non-asset targets.
+ */
+export function assetPath(href: string, dir: string): string | null {
+  const target = href.replace(/&amp;/g, "&").split(/[?#]/)[0];
+  if (!target || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(target)) return null;
+  let rel: string;
+  try {
+    rel = decodeURIComponent(target.startsWith("/") ? target.slice(1) : posix.join(dir, target));
+  } catch {
+    return null;
+  }
+  rel = posix.normalize(rel);
+  if (rel.startsWith("..") || !(assetExt(rel) in ASSET_EXT)) return null;
+  return rel;
+}
+
+function extractAssets(md: string, dir: string): string[] {
+  const hrefs: string[] = [];
+  const lexer = new Lexer({ gfm: true, breaks: true });
+  const tokens = lexer.lex(parseFrontMatter(md).body);
+  const visit = (list: unknown[]) => {
+    for (const t of list as { type: string; href?: string; text?: string; [k: string]: unknown }[]) {
+      if ((t.type === "image" || t.type === "link") && t.href) hrefs.push(t.href);
+      if (t.type === "html" && t.text) {
+        for (const m of t.text.matchAll(/\s(?:src|href|data)=["']([^"']+)["']/gi)) hrefs.push(m[1]);
+      }
+      for (const key of ["tokens", "items"]) {
+        if (Array.isArray(t[key])) visit(t[key] as unknown[]);
+      }
+      if (t.type === "table") {
+        const table = t as unknown as { header: { tokens: unknown[] }[]; rows: { tokens: unknown[] }[][] };
+        for (const cell of table.header) visit(cell.tokens);
+        for (const row of table.rows) for (const cell of row) visit(cell.tokens);
+      }
+    }
+  };
+  visit(tokens);
+  return [...new Set(hrefs.map((h) => assetPath(h, dir)).filter((p): p is string => p !== null))];
+}
+
+/** asset path → slugs of the documents that reference it */
+export async function assetReferences(): Promise<Map<string, string[]>> {
+  const docs = await listDocs();
+  const live = new Set(docs.map((d) => d.slug));
+  for (const slug of refsByDoc.keys()) {
+    if (!live.has(slug)) refsByDoc.delete(slug);
+  }
+  for (const doc of docs) {
+    const cached = refsByDoc.get(doc.slug);
+    if (cached?.mtime === doc.mtime.getTime()) continue;
+    try {
+      const md = await readFile(await resolveInDocs(`${doc.slug}.md`), "utf-8");
+      refsByDoc.set(doc.slug, { mtime: doc.mtime.getTime(), assets: extractAssets(md, slugDir(doc.slug)) });
+    } catch {
+      refsByDoc.delete(doc.slug);
+    }
+  }
+
+  const refs = new Map<string, string[]>();
+  for (const [slug, { assets }] of refsByDoc) {
+    for (const asset of assets) refs.set(asset, [...(refs.get(asset) ?? []), slug]);
+  }
+  return refs;
+}
+
+// ---------------------------------------------------------------------------
+// Access
+// ---------------------------------------------------------------------------
+
+/**
+ * An asset is restricted if a rule names it directly (its path with the
+ * extension, e.g. "projects/alpha/fig.png" or a pattern like "private/"), or
+ * if every document referencing it is restricted. A viewer may fetch it with
+ * a token for the asset itself or for any restricted doc that references it.
+ * Assets referenced by at least one public doc and not named by a rule are
+ * already published on that doc's page, so they stay public.
+ */
+export function assetAccess(
+  asset: string,
+  referencedBy: string[],
+  token: string | null,
+  rules: AccessRules,
+): { restricted: boolean; allowed: boolean } {
+  const own = isRestricted(asset, rules);
+  const restrictedRefs = referencedBy.filter((slug) => isRestricted(slug, rules));
+  const inherited = referencedBy.length > 0 && restrictedRefs.length === referencedBy.length;
+  if (!own && !inherited) return { restricted: false, allowed: true };
+  const allowed =
+    (own && canAccess(asset, token, rules)) || restrictedRefs.some((slug) => canAccess(slug, token, rules));
+  return { restricted: true, allowed };
+}
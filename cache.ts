@@ -0,0 +1,43 @@
+// ---------------------------------------------------------------------------
+// LRU cache
+// ---------------------------------------------------------------------------
+//
+// A Map remembers insertion order, so re-inserting on every hit keeps the
+// least recently used entry first in line for eviction.
+
+export interface Lru<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+  delete(key: string): void;
+  clear(): void;
+  readonly size: number;
+}
+
+export function createLru<V>(max: number): Lru<V> {
+  const map = new Map<string, V>();
+  return {
+    get(key) {
+      const value = map.get(key);
+      if (value === undefined) return undefined;
+      map.delete(key);
+      map.set(key, value);
+      return value;
+    },
+    set(key, value) {
+      map.delete(key);
+      map.set(key, value);
+      while (map.size > max) {
+        map.delete(map.keys().next().value!);
+      }
+    },
+    delete(key) {
+      map.delete(key);
+    },
+    clear() {
+      map.clear();
+    },
+    get size() {
+      return map.size;
+    },
+  };
+}
@@ -1,25 +1,58 @@
-import { query, type SDKMessage } from "@anthropic-ai/claude-agent-sdk"
-import type { ChatEvent } from "./protocol"
-
-const SYSTEM_PROMPT = `You are a helpful coding assistant. Follow these rules strictly:
-- Do NOT read or access environment variables (no printenv, env, /proc/*/environ, etc.)
-- Do NOT read files in /etc/ or any system configuration directories
-- Do NOT use curl, wget, nc, or any tool that sends data to external servers
-- Stay within the working directory — do not navigate outside /srv/md-server
-- Do NOT modify system files, systemd units, cron jobs, or user configs
-- Do NOT access or reveal secrets, tokens, API keys, or credentials
-- If asked to do any of the above, refuse and explain why.`
+import { statSync } from "node:fs"
+import { resolve } from "node:path"
+import { query, type CanUseTool, type HookCallback, type SDKMessage } from "@anthropic-ai/claude-agent-sdk"
+import { permissionRule, type ChatOptions } from "./provider"
+import { checkToolCall, sandboxCommand } from "./sandbox"
+import type { ChatEvent, PermissionDecision } from "./protocol"
 
+// Model, tools, budget, cwd and system prompt come from the agent profile.
 const OPTS = {
-  model: "claude-sonnet-4-5-20250929",
-  systemPrompt: SYSTEM_PROMPT,
   includePartialMessages: true,
-  maxBudgetUsd: 1.0,
-  allowedTools: ["Read", "Edit", "Glob", "Grep", "Bash", "WebSearch"],
-  permissionMode: "acceptEdits" as const,
+  permissionMode: "default" as const,
 }
 
-function* project(msg: SDKMessage): Generator<ChatEvent> {
+// ---------------------------------------------------------------------------
+// Permissions
+// ---------------------------------------------------------------------------
+//
+// Edits and shell commands pause until the user answers in the browser.
+// Read-only commands on the allowlist run without asking, but only as a
+// single plain command: pipes, redirects, chaining, substitution, globs and
+// quoting always ask.
+
+const SAFE_COMMANDS = ["ls", "pwd", "cat", "head", "tail", "wc", "git status", "git diff", "git log", "git show"]
+
+// Options that turn an allowlisted command into one that writes a file
+// (git's --output) or never returns (tail -f): those ask too.
+const UNSAFE_OPTIONS: Record<string, RegExp> = {
+  git: /^(--output|-o)/,
+  tail: /^(--follow|--retry|-[^-]*[fF])/,
+}
+
+function isSafeCommand(command: string, cwd: string): boolean {
+  if (/[;&|<>`$(){}\n\\*?[\]'"]/.test(command)) return false
+  const c = command.trim()
+  if (!SAFE_COMMANDS.some((safe) => c === safe || c.startsWith(safe + " "))) return false
+  const [program, ...args] = c.split(/\s+/)
+  return args.every((arg) => {
+    if (arg.startsWith("-")) return !UNSAFE_OPTIONS[program]?.test(arg)
+    // reading a FIFO or a device waits for a writer that may never come
+    const st = statSync(resolve(cwd, arg), { throwIfNoEntry: false })
+    return !st || st.isFile() || st.isDirectory()
+  })
+}
+
+// Tool output beyond this is cut before it reaches the browser.
+const MAX_TOOL_OUTPUT = 20_000
+
+function toolOutput(content: unknown): string {
+  if (typeof content === "string") return content
+  if (!Array.isArray(content)) return ""
+  return content.map((block) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n")
+}
+
+// toolNames maps tool-use ids to tool names, so results can say what produced them.
+function* project(msg: SDKMessage, toolNames: Map<string, string>): Generator<ChatEvent> {
   if (msg.type === "stream_event") {
     const e = msg.event
     if (
@@ -34,7 +67,26 @@ function* project(msg: SDKMessage): Generator<ChatEvent> {
   if (msg.type === "assistant") {
     for (const block of msg.message.content) {
       if (block.type === "tool_use") {
-        yield { type: "tool-use", name: block.name, input: block.input }
+        toolNames.set(block.id, block.name)
+        yield { type: "tool-use", id: block.id, name: block.name, input: block.input }
+      }
+    }
+    return
+  }
+  if (msg.type === "user") {
+    // tool results come back to the model as a user turn
+    const content = msg.message.content
+    if (!Array.isArray(content)) return
+    for (const block of content) {
+      if (block.type !== "tool_result") continue
+      const output = toolOutput(block.content)
+      yield {
+        type: "tool-result",
+        id: block.tool_use_id,
+        name: toolNames.get(block.tool_use_id) ?? "",
+        output: output.slice(0, MAX_TOOL_OUTPUT),
+        isError: block.is_error === true,
+        ...(output.length > MAX_TOOL_OUTPUT ? { truncated: output.length } : {}),
       }
     }
     return
@@ -42,20 +94,147 @@ function* project(msg: SDKMessage): Generator<ChatEvent> {
   if (msg.type === "result") {
     yield msg.subtype === "success"
       ? { type: "done", cost: msg.total_cost_usd, turns: msg.num_turns, session_id: msg.session_id }
-      : { type: "error", message: msg.errors?.[0] ?? msg.subtype, recoverable: false }
+      : { type: "error", message: msg.errors?.[0] ?? msg.subtype, recoverable: false, cost: msg.total_cost_usd }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tool guards
+// ---------------------------------------------------------------------------
+//
+// Every call passes the sandbox first, including the ones that run without
+// asking. Bash is then always sent on to canUseTool, which is where its
+// command gets wrapped: the permission card still shows what the agent wrote.
+
+/** The PreToolUse hook and permission callback for one turn. Permission prompts are passed to `emit`. */
+export function toolGuards(opts: ChatOptions, emit: (event: ChatEvent) => void): { sandboxHook: HookCallback; canUseTool: CanUseTool } {
+  const { profile } = opts
+  const permissions = opts.permissions ?? { allow: [] }
+  const stop = opts.signal ?? new AbortController().signal
+
+  const sandboxHook: HookCallback = async (hookInput) => {
+    if (hookInput.hook_event_name !== "PreToolUse") return {}
+    const name = hookInput.tool_name
+    const input = (hookInput.tool_input ?? {}) as Record<string, unknown>
+    const reason = await checkToolCall(profile.sandbox, name, input, profile.cwd)
+    if (reason) {
+      opts.onViolation?.(name, input, reason)
+      // the SDK reports this back as the call's (error) tool result
+      return { hookSpecificOutput: { hookEventName: "PreToolUse", permissionDecision: "deny", permissionDecisionReason: `Sandbox: ${reason}` } }
+    }
+    if (name === "Bash") return { hookSpecificOutput: { hookEventName: "PreToolUse", permissionDecision: "ask" } }
+    return {}
   }
+
+  const run = (name: string, input: Record<string, unknown>) =>
+    name === "Bash" ? { ...input, command: sandboxCommand(profile.sandbox, String(input.command ?? ""), profile.cwd) } : input
+
+  const canUseTool: CanUseTool = async (name, input, { signal, toolUseID }) => {
+    const rule = permissionRule(name, input)
+    if (
+      (name === "Bash" && isSafeCommand(String(input.command ?? ""), profile.cwd)) ||
+      profile.allowedTools.includes(name) ||
+      permissions.allow.includes(rule)
+    ) {
+      return { behavior: "allow", updatedInput: run(name, input) }
+    }
+
+    let decision: PermissionDecision = "deny"
+    if (permissions.approve && !stop.aborted) {
+      emit({ type: "permission-request", id: toolUseID, name, input, rule })
+      decision = await permissions.approve({ id: toolUseID, name, input, rule }, AbortSignal.any([signal, stop]))
+      emit({ type: "permission-resolved", id: toolUseID, decision })
+    }
+    if (decision === "deny") {
+      // the SDK reports this back as the call's (error) tool result
+      return { behavior: "deny", message: "The user denied this tool call." }
+    }
+    if (decision === "always" && !permissions.allow.includes(rule)) permissions.allow.push(rule)
+    return { behavior: "allow", updatedInput: run(name, input) }
+  }
+
+  return { sandboxHook, canUseTool }
 }
 
-export async function* chat(prompt: string, sessionId?: string): AsyncGenerator<ChatEvent> {
+// ---------------------------------------------------------------------------
+// Chat
+// ---------------------------------------------------------------------------
+//
+// The "claude" chat provider (see provider.ts).
+
+// After Stop, how long the agent gets to wind down before its process is killed.
+const CANCEL_GRACE_MS = 5_000
+
+export async function* chat(prompt: string, opts: ChatOptions): AsyncGenerator<ChatEvent> {
+  const { profile } = opts
+  const stop = opts.signal ?? new AbortController().signal
+
+  // Permission prompts happen inside an SDK callback, between messages, so
+  // their events go through a side queue merged into the stream below.
+  const side: ChatEvent[] = []
+  let wake = () => {}
+  const emit = (event: ChatEvent) => {
+    side.push(event)
+    wake()
+  }
+
+  const { sandboxHook, canUseTool } = toolGuards(opts, emit)
+
+  const abortController = new AbortController()
   const q = query({
     prompt,
     options: {
       ...OPTS,
-      ...(sessionId ? { resume: sessionId } : {}),
+      model: profile.model,
+      systemPrompt: profile.systemPrompt,
+      tools: profile.tools,
+      allowedTools: profile.allowedTools,
+      cwd: profile.cwd,
+      mcpServers: profile.mcpServers,
+      maxBudgetUsd: Math.min(profile.maxBudgetUsd, opts.budget ?? Infinity),
+      canUseTool,
+      hooks: { PreToolUse: [{ hooks: [sandboxHook] }] },
+      abortController,
+      ...(opts.sessionId ? { resume: opts.sessionId } : {}),
     },
   })
 
-  for await (const msg of q) {
-    yield* project(msg)
+  // Stop asks the agent to interrupt, which ends the turn cleanly and keeps
+  // the session resumable. If that fails or hangs, the process is killed.
+  let killTimer: ReturnType<typeof setTimeout> | undefined
+  const onStop = () => {
+    q.interrupt().catch(() => abortController.abort())
+    killTimer = setTimeout(() => abortController.abort(), CANCEL_GRACE_MS)
+  }
+  if (stop.aborted) onStop()
+  else stop.addEventListener("abort", onStop, { once: true })
+
+  const toolNames = new Map<string, string>()
+  const messages = q[Symbol.asyncIterator]()
+  let next = messages.next()
+  try {
+    for (;;) {
+      const woken = new Promise<null>((resolve) => (wake = () => resolve(null)))
+      while (side.length) yield side.shift()!
+      const result = await Promise.race([next, woken])
+      if (!result) continue
+      if (result.done) break
+      next = messages.next()
+      const msg = result.value
+      if (stop.aborted && msg.type === "result") {
+        // text and tool calls streamed before the stop stay as they were
+        yield { type: "cancelled", cost: msg.total_cost_usd, session_id: msg.session_id }
+        return
+      }
+      yield* project(msg, toolNames)
+    }
+    while (side.length) yield side.shift()!
+  } catch (err) {
+    if (!stop.aborted) throw err
+    // killed before it could report back
+    yield { type: "cancelled" }
+  } finally {
+    clearTimeout(killTimer)
+    stop.removeEventListener("abort", onStop)
   }
 }
@@ -0,0 +1,247 @@
+import { randomUUID } from "node:crypto";
+import { chmod, link, lstat, mkdir, readdir, readFile, rename, rm, stat, realpath, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { DEFAULT_META, parseFrontMatter, type DocMeta } from "./frontmatter";
+
+export const DOCS_DIR = join(import.meta.dir, "docs");
+
+// Server state (tokens, logs) lives outside docs/ so it can never be served.
+export const DATA_DIR = process.env.DATA_DIR ?? join(import.meta.dir, "data");
+
+// The per-doc token lists (see access.ts). Inside docs/, but never served.
+export const ACCESS_FILE = join(DOCS_DIR, ".access.json");
+
+// ---------------------------------------------------------------------------
+// Path resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * A slug is a "/"-separated path relative to docs/ without the .md extension.
+ * Hidden segments (".access.json", ".git", "..") and empty segments are never
+ * valid, so dotfiles can't be addressed even before the realpath check runs.
+ */
+export function isValidPath(rel: string): boolean {
+  if (rel === "" || rel.includes("\0") || rel.includes("\\")) return false;
+  return rel.split("/").every((seg) => seg !== "" && !seg.startsWith("."));
+}
+
+/**
+ * Resolve a path relative to docs/, following symlinks. Throws if the file
+ * doesn't exist or if the resolved path escapes the docs directory.
+ */
+export async function resolveInDocs(rel: string): Promise<string> {
+  if (!isValidPath(rel)) throw new Error("invalid path");
+  // realpath follows symlinks — validate it's still inside docs/
+  const resolved = await realpath(join(DOCS_DIR, rel));
+  const docsReal = await realpath(DOCS_DIR);
+  if (!resolved.startsWith(docsReal + "/")) throw new Error("outside docs");
+  return resolved;
+}
+
+/** Directory part of a slug ("projects/alpha/results" → "projects/alpha"). */
+export function slugDir(slug: string): string {
+  const i = slug.lastIndexOf("/");
+  return i === -1 ? "" : slug.slice(0, i);
+}
+
+/** URL path for a slug or folder, with each segment percent-encoded. */
+export function slugHref(slug: string): string {
+  return "/" + slug.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Write a document's markdown, creating it and its folders if need be. An
+ * existing doc is written where its symlink points; a new one must land
+ * inside docs/ too, so no folder on the way may lead out of it. With
+ * `create`, an existing doc is an error (EEXIST) rather than overwritten.
+ *
+ * The content goes to a hidden file beside the doc first and then takes its
+ * place in one step, so readers see the old version or the new one, never
+ * half of it.
+ */
+export async function writeDoc(slug: string, content: string, opts: { create?: boolean } = {}): Promise<void> {
+  const rel = `${slug}.md`;
+  if (!isValidPath(rel)) throw new Error("invalid path");
+  const path = join(DOCS_DIR, rel);
+  let target = await resolveInDocs(rel).catch(() => null);
+  if (target && opts.create) throw Object.assign(new Error(`${rel} exists`), { code: "EEXIST" });
+  if (!target) {
+    // a symlink that doesn't resolve inside docs/ is never written through
+    if (await lstat(path).then(() => true, () => false)) throw new Error("outside docs");
+    let dir = dirname(path);
+    while (!(await lstat(dir).then(() => true, () => false))) dir = dirname(dir);
+    const docsReal = await realpath(DOCS_DIR);
+    const real = await realpath(dir);
+    if (real !== docsReal && !real.startsWith(docsReal + "/")) throw new Error("outside docs");
+    await mkdir(dirname(path), { recursive: true });
+    target = path;
+  }
+  const temp = join(dirname(target), `.${basename(target)}.${randomUUID()}.tmp`);
+  try {
+    await writeFile(temp, content, { flag: "wx" });
+    if (opts.create) {
+      await link(temp, target); // EEXIST if someone else created it meanwhile
+    } else {
+      await chmod(temp, (await stat(target)).mode);
+      await rename(temp, target);
+    }
+  } finally {
+    await rm(temp, { force: true });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Discovery
+// ---------------------------------------------------------------------------
+
+export interface DocEntry {
+  slug: string;
+  name: string; // front matter title, else the filename
+  mtime: Date;
+  meta: DocMeta;
+}
+
+/** The date a document is listed under: its front matter date, else last modified. */
+export function docDate(doc: DocEntry): Date {
+  return doc.meta.date ?? doc.mtime;
+}
+
+// Front matter only changes when the file does, so listDocs() re-reads a
+// file only when its mtime moves.
+const metaCache = new Map<string, { mtime: number; meta: DocMeta }>(); // real path → meta
+
+async function readMeta(resolved: string, mtime: Date): Promise<DocMeta> {
+  const cached = metaCache.get(resolved);
+  if (cached && cached.mtime === mtime.getTime()) return cached.meta;
+  let meta = DEFAULT_META;
+  try {
+    meta = parseFrontMatter(await readFile(resolved, "utf-8")).meta;
+  } catch {
+    // unreadable — list it with default metadata
+  }
+  metaCache.set(resolved, { mtime: mtime.getTime(), meta });
+  return meta;
+}
+
+export async function listDocs(): Promise<DocEntry[]> {
+  let docsReal: string;
+  try {
+    docsReal = await realpath(DOCS_DIR);
+  } catch {
+    return [];
+  }
+
+  const docs: DocEntry[] = [];
+  await walk(DOCS_DIR, "", docsReal, new Set([docsReal]), docs);
+  docs.sort((a, b) => docDate(b).getTime() - docDate(a).getTime());
+  return docs;
+}
+
+/** The slug of the document a file path points at (symlinks followed), or null if it isn't one. */
+export async function slugForFile(path: string): Promise<string | null> {
+  let real: string;
+  try {
+    real = await realpath(path);
+  } catch {
+    return null;
+  }
+  for (const doc of await listDocs()) {
+    try {
+      if ((await resolveInDocs(`${doc.slug}.md`)) === real) return doc.slug;
+    } catch {
+      // vanished since listing
+    }
+  }
+  return null;
+}
+
+async function walk(
+  dir: string,
+  prefix: string,
+  docsReal: string,
+  seen: Set<string>,
+  out: DocEntry[],
+): Promise<void> {
+  let entries: string[];
+  try {
+    entries = await readdir(dir);
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (entry.startsWith(".")) continue;
+    const fullPath = join(dir, entry);
+    try {
+      // realpath follows symlinks; every level must stay inside docs/
+      const resolved = await realpath(fullPath);
+      if (!resolved.startsWith(docsReal + "/")) continue;
+      const st = await stat(resolved);
+      if (st.isDirectory()) {
+        // symlinked folders can form cycles — visit each real dir once
+        if (seen.has(resolved)) continue;
+        seen.add(resolved);
+        await walk(fullPath, `${prefix}${entry}/`, docsReal, seen, out);
+        continue;
+      }
+      if (!st.isFile() || !entry.endsWith(".md")) continue;
+      const meta = await readMeta(resolved, st.mtime);
+      out.push({
+        slug: prefix + entry.replace(/\.md$/, ""),
+        name: meta.title ?? entry.replace(/\.md$/, ""),
+        mtime: st.mtime,
+        meta,
+      });
+    } catch {
+      // broken symlink or permission error — skip
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Folder tree
+// ---------------------------------------------------------------------------
+
+export interface DocFolder {
+  name: string;
+  path: string; // "" for the root, otherwise "projects/alpha"
+  mtime: Date; // newest document date anywhere below this folder
+  folders: DocFolder[];
+  docs: DocEntry[];
+}
+
+/**
+ * Group a flat document list into folders. Folders and documents are each
+ * sorted by date, newest first, with folders listed before docs.
+ */
+export function buildTree(docs: DocEntry[], root = ""): DocFolder {
+  const top: DocFolder = { name: root.split("/").pop() ?? "", path: root, mtime: new Date(0), folders: [], docs: [] };
+  const base = root ? root + "/" : "";
+
+  for (const doc of docs) {
+    if (!doc.slug.startsWith(base)) continue;
+    const parts = doc.slug.slice(base.length).split("/");
+    let folder = top;
+    for (const part of parts.slice(0, -1)) {
+      let child = folder.folders.find((f) => f.name === part);
+      if (!child) {
+        const path = folder.path ? `${folder.path}/${part}` : part;
+        child = { name: part, path, mtime: new Date(0), folders: [], docs: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.docs.push(doc);
+  }
+
+  sortTree(top);
+  return top;
+}
+
+function sortTree(folder: DocFolder): void {
+  for (const child of folder.folders) sortTree(child);
+  folder.docs.sort((a, b) => docDate(b).getTime() - docDate(a).getTime());
+  folder.folders.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
+  const times = [...folder.docs.map(docDate), ...folder.folders.map((f) => f.mtime)].map((d) => d.getTime());
+  folder.mtime = new Date(Math.max(0, ...times));
+}
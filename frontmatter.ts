@@ -0,0 +1,85 @@
+import { parse as parseYaml } from "yaml";
+
+// ---------------------------------------------------------------------------
+// YAML front matter
+// ---------------------------------------------------------------------------
+//
+//   ---
+//   title: Results for project alpha
+//   date: 2025-03-14
+//   tags: [alpha, experiments]
+//   summary: One-line description shown on the index.
+//   draft: true          # hidden from the index, tags and search
+//   math: false          # skip MathJax on this page
+//   annotations: false   # skip the Hypothesis sidebar on this page
+//   toc: false           # no table of contents (true: one even for a short doc)
+//   ---
+
+export interface DocMeta {
+  title?: string;
+  date?: Date;
+  tags: string[];
+  summary?: string;
+  draft: boolean;
+  math: boolean;
+  annotations: boolean;
+  toc?: boolean; // unset: a table of contents once there are enough headings
+}
+
+export const DEFAULT_META: DocMeta = {
+  tags: [],
+  draft: false,
+  math: true,
+  annotations: true,
+};
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a markdown source into its front matter and body. A file without
+ * front matter — or with a block that isn't valid YAML — is returned as-is
+ * with default metadata, so a stray `---` never hides content.
+ */
+export function parseFrontMatter(md: string): { meta: DocMeta; body: string } {
+  const m = md.replace(/^\uFEFF/, "").match(FRONT_MATTER);
+  if (!m) return { meta: { ...DEFAULT_META }, body: md };
+
+  let data: unknown;
+  try {
+    data = parseYaml(m[1]);
+  } catch {
+    return { meta: { ...DEFAULT_META }, body: md };
+  }
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return { meta: { ...DEFAULT_META }, body: md };
+  }
+
+  return { meta: normalize(data as Record<string, unknown>), body: md.replace(/^\uFEFF/, "").slice(m[0].length) };
+}
+
+function normalize(data: Record<string, unknown>): DocMeta {
+  const meta: DocMeta = { ...DEFAULT_META, tags: [] };
+
+  if (typeof data.title === "string" && data.title.trim()) meta.title = data.title.trim();
+  if (typeof data.summary === "string" && data.summary.trim()) meta.summary = data.summary.trim();
+
+  if (data.date instanceof Date || typeof data.date === "string" || typeof data.date === "number") {
+    const date = new Date(data.date);
+    if (!Number.isNaN(date.getTime())) meta.date = date;
+  }
+
+  const tags = Array.isArray(data.tags) ? data.tags : typeof data.tags === "string" ? data.tags.split(",") : [];
+  meta.tags = [...new Set(tags.map((t) => normalizeTag(String(t))).filter(Boolean))];
+
+  if (typeof data.draft === "boolean") meta.draft = data.draft;
+  if (typeof data.math === "boolean") meta.math = data.math;
+  if (typeof data.annotations === "boolean") meta.annotations = data.annotations;
+  if (typeof data.toc === "boolean") meta.toc = data.toc;
+
+  return meta;
+}
+
+/** Tags are case-insensitive and compared in lowercase ("ML" and "ml" are one tag). */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
@@ -0,0 +1,171 @@
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { join } from "node:path";
+import { DATA_DIR } from "./docs";
+import type { ConversationSummary, TranscriptEntry } from "./protocol";
+
+// ---------------------------------------------------------------------------
+// Conversation store
+// ---------------------------------------------------------------------------
+//
+// data/chats/index.json   — every conversation's owner, agent profile, title,
+//                           timestamps and the agent SDK session id used to
+//                           resume it.
+// data/chats/<id>.jsonl   — its transcript, one TranscriptEntry per line,
+//                           appended as events stream in so a dropped
+//                           connection or a restart loses nothing.
+
+const CHATS_DIR = join(DATA_DIR, "chats");
+const INDEX_FILE = join(CHATS_DIR, "index.json");
+
+const TITLE_MAX = 80;
+
+// Conversations saved before chat had several users belong to WS_TOKEN's.
+export const DEFAULT_OWNER = "owner";
+
+export interface Conversation extends ConversationSummary {
+  owner?: string; // the chat user's id; each user only sees their own
+  sessionId?: string; // set once the first turn finishes
+  allow?: string[]; // tool permissions the user chose to always allow here
+}
+
+function isValidId(id: string): boolean {
+  return /^[0-9a-f]{16}$/.test(id);
+}
+
+function transcriptFile(id: string): string {
+  return join(CHATS_DIR, `${id}.jsonl`);
+}
+
+export function titleFrom(text: string): string {
+  const line = text.trim().split("\n")[0].replace(/\s+/g, " ");
+  return line.length > TITLE_MAX ? line.slice(0, TITLE_MAX - 1) + "…" : line || "Untitled";
+}
+
+async function readIndex(): Promise<Conversation[]> {
+  try {
+    return JSON.parse(await readFile(INDEX_FILE, "utf-8"));
+  } catch {
+    return [];
+  }
+}
+
+async function saveIndex(conversations: Conversation[]): Promise<void> {
+  await mkdir(CHATS_DIR, { recursive: true });
+  // write-then-rename so a crash never leaves a half-written index
+  const tmp = `${INDEX_FILE}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(conversations, null, 2) + "\n", { mode: 0o600 });
+  await rename(tmp, INDEX_FILE);
+}
+
+// Index updates are read-modify-write; run them one at a time.
+let pending: Promise<unknown> = Promise.resolve();
+
+function updateIndex<T>(fn: (conversations: Conversation[]) => { next: Conversation[]; result: T }): Promise<T> {
+  const run = pending.then(async () => {
+    const { next, result } = fn(await readIndex());
+    await saveIndex(next);
+    return result;
+  });
+  pending = run.catch(() => {});
+  return run;
+}
+
+function ownedBy(c: Conversation, owner: string): boolean {
+  return (c.owner ?? DEFAULT_OWNER) === owner;
+}
+
+/** A user's conversations, most recently active first. */
+export async function listConversations(owner: string): Promise<Conversation[]> {
+  const conversations = (await readIndex()).filter((c) => ownedBy(c, owner));
+  return conversations.sort((a, b) => b.updated.localeCompare(a.updated));
+}
+
+/** The conversation, if it exists and belongs to `owner`. */
+export async function getConversation(id: string, owner: string): Promise<Conversation | null> {
+  if (!isValidId(id)) return null;
+  return (await readIndex()).find((c) => c.id === id && ownedBy(c, owner)) ?? null;
+}
+
+export function createConversation(title: string, owner: string, profile: string): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const c: Conversation = { id: randomBytes(8).toString("hex"), owner, profile, title: titleFrom(title), created: now, updated: now };
+  return updateIndex((all) => ({ next: [...all, c], result: c }));
+}
+
+/**
+ * Rename, or record a finished turn (its SDK session and the time). Renaming
+ * doesn't count as activity, so it leaves the order alone. Returns null if
+ * the conversation is gone.
+ */
+export function updateConversation(
+  id: string,
+  patch: { title: string } | { sessionId?: string },
+): Promise<Conversation | null> {
+  return updateIndex((all) => {
+    const i = all.findIndex((c) => c.id === id);
+    if (i === -1) return { next: all, result: null };
+    const c =
+      "title" in patch
+        ? { ...all[i], title: titleFrom(patch.title) }
+        : { ...all[i], sessionId: patch.sessionId ?? all[i].sessionId, updated: new Date().toISOString() };
+    return { next: all.with(i, c), result: c };
+  });
+}
+
+/** Remember an "always allow" answer for the rest of the conversation. */
+export function addAllowRule(id: string, rule: string): Promise<Conversation | null> {
+  return updateIndex((all) => {
+    const i = all.findIndex((c) => c.id === id);
+    if (i === -1) return { next: all, result: null };
+    const allow = all[i].allow ?? [];
+    const c = allow.includes(rule) ? all[i] : { ...all[i], allow: [...allow, rule] };
+    return { next: all.with(i, c), result: c };
+  });
+}
+
+export async function deleteConversation(id: string): Promise<boolean> {
+  if (!isValidId(id)) return false;
+  const found = await updateIndex((all) => ({ next: all.filter((c) => c.id !== id), result: all.some((c) => c.id === id) }));
+  await rm(transcriptFile(id), { force: true });
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Transcripts
+// ---------------------------------------------------------------------------
+
+export async function appendEntry(id: string, entry: TranscriptEntry): Promise<void> {
+  if (!isValidId(id)) throw new Error("invalid conversation id");
+  await mkdir(CHATS_DIR, { recursive: true });
+  await appendFile(transcriptFile(id), JSON.stringify(entry) + "\n", { mode: 0o600 });
+}
+
+/** The saved transcript, with runs of text deltas merged so replay is one event per message. */
+export async function readTranscript(id: string): Promise<TranscriptEntry[]> {
+  if (!isValidId(id)) return [];
+  let text: string;
+  try {
+    text = await readFile(transcriptFile(id), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: TranscriptEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line) continue;
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue; // torn last line after a crash
+    }
+    const last = entries.at(-1);
+    if (entry.type === "text-delta" && last?.type === "text-delta") {
+      entries[entries.length - 1] = { type: "text-delta", delta: last.delta + entry.delta };
+    } else {
+      entries.push(entry);
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,91 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { Marked } from "marked";
+import type { DocIndex } from "./links";
+
+// links.ts reads access rules through access.ts, which writes a session key
+// into data/ on import unless it's given one.
+const savedSecret = process.env.SESSION_SECRET;
+process.env.SESSION_SECRET = "links-test";
+const { resolveWikiLink, resolveWikiLinks, wikiLinkExtension } = await import("./links");
+
+afterAll(() => {
+  if (savedSecret === undefined) delete process.env.SESSION_SECRET;
+  else process.env.SESSION_SECRET = savedSecret;
+});
+
+const SLUGS = ["example", "projects/alpha/results", "projects/alpha/notes", "projects/beta/results", "private/plan"];
+
+function indexOf(slugs: string[]): DocIndex {
+  const byName = new Map<string, string[]>();
+  for (const slug of slugs) {
+    const name = slug.split("/").pop()!;
+    byName.set(name, [...(byName.get(name) ?? []), slug]);
+  }
+  return { slugs: new Set(slugs), byName, restricted: (slug) => slug.startsWith("private/") };
+}
+
+const index = indexOf(SLUGS);
+
+function render(md: string, from: string): string {
+  const marked = new Marked(wikiLinkExtension());
+  return marked.parse(md, { async: false, walkTokens: resolveWikiLinks(from, index) });
+}
+
+describe("resolveWikiLink", () => {
+  test("a target next to the linking doc comes first", () => {
+    expect(resolveWikiLink("results", "projects/alpha/notes", index)).toBe("projects/alpha/results");
+    expect(resolveWikiLink("results.md", "projects/beta/results", index)).toBe("projects/beta/results");
+  });
+
+  test("then the docs root", () => {
+    expect(resolveWikiLink("example", "projects/alpha/notes", index)).toBe("example");
+    expect(resolveWikiLink("/projects/beta/results", "projects/alpha/notes", index)).toBe("projects/beta/results");
+    expect(resolveWikiLink("projects/alpha/results", "example", index)).toBe("projects/alpha/results");
+  });
+
+  test("then a name only one doc has", () => {
+    expect(resolveWikiLink("notes", "example", index)).toBe("projects/alpha/notes");
+    expect(resolveWikiLink("results", "example", index)).toBeNull(); // alpha's or beta's?
+  });
+
+  test("a restricted target resolves whether or not it exists", () => {
+    expect(resolveWikiLink("private/plan", "example", index)).toBe("private/plan");
+    expect(resolveWikiLink("private/nothing-here", "example", index)).toBe("private/nothing-here");
+    // looking one up by name would tell that it exists
+    expect(resolveWikiLink("plan", "example", index)).toBeNull();
+  });
+
+  test("anything else is broken", () => {
+    expect(resolveWikiLink("nowhere", "example", index)).toBeNull();
+    expect(resolveWikiLink("projects/gamma/results", "example", index)).toBeNull();
+    expect(resolveWikiLink("../../etc/passwd", "projects/alpha/notes", index)).toBeNull();
+    expect(resolveWikiLink(".access.json", "example", index)).toBeNull();
+  });
+
+  test("a bare heading is the linking doc", () => {
+    expect(resolveWikiLink("", "projects/alpha/notes", index)).toBe("projects/alpha/notes");
+  });
+});
+
+describe("wiki-link rendering", () => {
+  test("links carry their label and heading", () => {
+    expect(render("[[notes#Method & data|the method]]", "example")).toContain(
+      `<a class="wikilink" href="/projects/alpha/notes#method--data">the method</a>`,
+    );
+  });
+
+  test("restricted targets render alike, existing or not", () => {
+    expect(render("[[private/plan]]", "example")).toContain(`<a class="wikilink" href="/private/plan">private/plan</a>`);
+    expect(render("[[private/nothing-here]]", "example")).toContain(`<a class="wikilink" href="/private/nothing-here">private/nothing-here</a>`);
+  });
+
+  test("broken links aren't links", () => {
+    const html = render("[[nowhere]]", "example");
+    expect(html).toContain(`<span class="wikilink broken" title="No such document">nowhere</span>`);
+    expect(html).not.toContain("<a");
+  });
+
+  test("labels are escaped", () => {
+    expect(render("[[example|<b>x</b>]]", "example")).toContain(">&lt;b&gt;x&lt;/b&gt;</a>");
+  });
+});
@@ -0,0 +1,194 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { posix } from "node:path";
+import { Marked, type MarkedExtension, type Token, type Tokens } from "marked";
+import { isRestricted, type AccessRules } from "./access";
+import { isValidPath, listDocs, resolveInDocs, slugDir, slugHref, type DocEntry } from "./docs";
+import { parseFrontMatter } from "./frontmatter";
+import { escapeHtml } from "./html";
+import { slugify } from "./toc";
+
+// ---------------------------------------------------------------------------
+// Wiki-links
+// ---------------------------------------------------------------------------
+//
+//   [[results]]                      a doc, by path or by name
+//   [[projects/alpha/results]]       from the docs root
+//   [[results|the results]]          with a label
+//   [[results#method]]               to a heading, by its text or its id
+//
+// A target is looked for next to the linking doc first, then from the docs
+// root, then as the name of exactly one doc anywhere. Restricted docs take
+// part without being looked up: a target that falls under a restricted
+// pattern is linked as written, whether or not the doc exists, so a page
+// never tells a public reader which private docs there are. Anything else
+// that matches nothing is a broken link, shown as such.
+
+export interface WikiLinkToken extends Tokens.Generic {
+  type: "wikiLink";
+  target: string;
+  anchor: string; // "" or "#heading"
+  label: string;
+  slug?: string | null; // set by resolveWikiLinks(); null when broken
+}
+
+// No brackets or newlines inside; "|" splits off the label.
+const WIKI_LINK = /^\[\[([^[\]|\n#]*)(#[^[\]|\n]*)?(?:\|([^[\]\n]+))?\]\]/;
+
+export function wikiLinkExtension(): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "wikiLink",
+        level: "inline",
+        start(src) {
+          const i = src.indexOf("[[");
+          return i === -1 ? undefined : i;
+        },
+        tokenizer(src) {
+          const m = WIKI_LINK.exec(src);
+          if (!m || !(m[1].trim() || m[2])) return undefined;
+          const target = m[1].trim();
+          const label = (m[3] ?? (target || m[2].slice(1))).trim();
+          return { type: "wikiLink", raw: m[0], target, anchor: m[2]?.trim() ?? "", label } satisfies WikiLinkToken;
+        },
+        renderer(token) {
+          const { slug, anchor, label } = token as WikiLinkToken;
+          if (!slug) {
+            return `<span class="wikilink broken" title="No such document">${escapeHtml(label)}</span>`;
+          }
+          const hash = anchor.length > 1 ? `#${slugify(anchor.slice(1))}` : "";
+          return `<a class="wikilink" href="${slugHref(slug)}${escapeHtml(hash)}">${escapeHtml(label)}</a>`;
+        },
+      },
+    ],
+  };
+}
+
+/** What wiki-links are resolved against: the docs there are, and which slugs are restricted. */
+export interface DocIndex {
+  slugs: Set<string>;
+  byName: Map<string, string[]>; // last path segment → slugs
+  restricted: (slug: string) => boolean;
+}
+
+/** The slug a wiki-link target names, seen from the doc `from`, or null if it's broken. */
+export function resolveWikiLink(target: string, from: string, index: DocIndex): string | null {
+  const clean = target.replace(/\.md$/, "");
+  if (!clean) return from; // [[#heading]] is this doc
+  const candidates = [posix.normalize(clean.replace(/^\/+/, ""))];
+  if (!clean.startsWith("/") && slugDir(from)) candidates.unshift(posix.join(slugDir(from), clean));
+  for (const slug of candidates) {
+    if (!isValidPath(`${slug}.md`)) continue;
+    if (index.restricted(slug) || index.slugs.has(slug)) return slug;
+  }
+  if (clean.includes("/")) return null;
+  const named = (index.byName.get(clean) ?? []).filter((slug) => !index.restricted(slug));
+  return named.length === 1 ? named[0] : null;
+}
+
+/** A walkTokens callback that resolves the wiki-links in the doc `from`. */
+export function resolveWikiLinks(from: string, index: DocIndex) {
+  return (token: Token) => {
+    if (token.type === "wikiLink") (token as WikiLinkToken).slug = resolveWikiLink(token.target, from, index);
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Link graph
+// ---------------------------------------------------------------------------
+//
+// Which docs link to which: wiki-links, and plain markdown links to other
+// docs. Like the search index it's refreshed lazily, re-reading only files
+// whose mtime changed. The graph holds every doc, restricted or not; pages
+// filter it per viewer with canAccess.
+
+interface Outgoing {
+  mtime: number;
+  wiki: string[]; // wiki-link targets
+  hrefs: string[]; // markdown link targets, as written
+}
+
+// Lexing only, so no math: wiki-links inside TeX are rare enough to ignore.
+const lexer = new Marked({ gfm: true, breaks: true }, wikiLinkExtension());
+const outgoing = new Map<string, Outgoing>(); // slug → its links
+
+function extractLinks(md: string): { wiki: string[]; hrefs: string[] } {
+  const wiki: string[] = [];
+  const hrefs: string[] = [];
+  lexer.walkTokens(lexer.lexer(parseFrontMatter(md).body), (token) => {
+    if (token.type === "wikiLink") wiki.push((token as WikiLinkToken).target);
+    else if (token.type === "link") hrefs.push(token.href);
+  });
+  return { wiki, hrefs };
+}
+
+/** The doc a markdown link in `from` points at, if it's one of ours: "/notes", "../alpha/results.md". */
+function hrefSlug(href: string, from: string): string | null {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(href)) return null;
+  let path: string;
+  try {
+    path = decodeURIComponent(href.replace(/[?#].*$/, ""));
+  } catch {
+    return null;
+  }
+  const slug = path.startsWith("/") ? posix.normalize(path).slice(1) : posix.join(slugDir(from), path);
+  return slug.replace(/\.md$/, "");
+}
+
+export interface LinkGraph {
+  docs: DocEntry[];
+  index: DocIndex;
+  links: Map<string, Set<string>>; // slug → the docs it links to
+  // Changes whenever links could resolve differently: docs added or removed,
+  // or the restricted patterns edited.
+  version: string;
+}
+
+export async function linkGraph(rules: AccessRules): Promise<LinkGraph> {
+  const docs = await listDocs();
+  const slugs = new Set(docs.map((d) => d.slug));
+  for (const slug of outgoing.keys()) if (!slugs.has(slug)) outgoing.delete(slug);
+  for (const doc of docs) {
+    const mtime = doc.mtime.getTime();
+    if (outgoing.get(doc.slug)?.mtime === mtime) continue;
+    try {
+      const md = await readFile(await resolveInDocs(`${doc.slug}.md`), "utf-8");
+      outgoing.set(doc.slug, { mtime, ...extractLinks(md) });
+    } catch {
+      outgoing.delete(doc.slug);
+    }
+  }
+
+  const byName = new Map<string, string[]>();
+  for (const slug of slugs) {
+    const name = slug.split("/").pop()!;
+    byName.set(name, [...(byName.get(name) ?? []), slug]);
+  }
+  const index: DocIndex = { slugs, byName, restricted: (slug) => isRestricted(slug, rules) };
+
+  const links = new Map<string, Set<string>>();
+  for (const [from, out] of outgoing) {
+    const targets = new Set<string>();
+    for (const target of out.wiki) {
+      const slug = resolveWikiLink(target, from, index);
+      if (slug && slugs.has(slug)) targets.add(slug);
+    }
+    for (const href of out.hrefs) {
+      const slug = hrefSlug(href, from);
+      if (slug && slugs.has(slug)) targets.add(slug);
+    }
+    targets.delete(from);
+    links.set(from, targets);
+  }
+
+  const version = createHash("sha1")
+    .update(JSON.stringify([[...slugs].sort(), rules.store.restricted, Object.keys(rules.legacy)]))
+    .digest("base64url");
+  return { docs, index, links, version };
+}
+
+/** The docs linking to `slug`. */
+export function backlinks(graph: LinkGraph, slug: string): DocEntry[] {
+  return graph.docs.filter((d) => graph.links.get(d.slug)?.has(slug));
+}
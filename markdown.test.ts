@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { renderReply } from "./markdown";
+import { renderTex } from "./math";
+
+// Replies are model output and end up in the chat with innerHTML, so nothing
+// in them may turn into markup of its own: no tags, no attributes.
+
+/** The attribute names on every tag in `html`. */
+function attributeNames(html: string): string[] {
+  const names: string[] = [];
+  for (const [, attrs] of html.matchAll(/<[a-z][\w:-]*((?:\s+[\w:-]+="[^"]*")*)\s*\/?>/gi)) {
+    for (const [, name] of attrs.matchAll(/\s([\w:-]+)="/g)) names.push(name.toLowerCase());
+  }
+  return names;
+}
+
+/** Every `<` in `html` starts a tag made only of quoted attributes, so nothing slipped out of one. */
+function wellFormed(html: string): boolean {
+  return html.replace(/<\/?[a-z][\w:-]*(?:\s+[\w:-]+="[^"]*")*\s*\/?>/gi, "").indexOf("<") === -1;
+}
+
+describe("math", () => {
+  const UNICODE = String.raw`\unicode[x" onmouseover="alert(1)" a="]{x41}`;
+
+  test("a quote in \\unicode's font stays inside the style attribute", () => {
+    const html = renderReply(`$${UNICODE}$`);
+    expect(wellFormed(html)).toBe(true);
+    expect(attributeNames(html)).not.toContain("onmouseover");
+  });
+
+  test.each([
+    UNICODE,
+    String.raw`\style{color: red" onclick="alert(1)}{x}`,
+    String.raw`\href{/a" onclick="alert(1)}{x}`,
+    String.raw`\class{a" onclick="alert(1)}{x}`,
+  ])("doc math can't add attributes either: %s", (tex) => {
+    const html = renderTex(tex, false);
+    expect(wellFormed(html)).toBe(true);
+    expect(attributeNames(html)).not.toContain("onclick");
+    expect(attributeNames(html)).not.toContain("onmouseover");
+  });
+});
+
+describe("replies", () => {
+  test("raw HTML is shown as text", () => {
+    expect(renderReply(`<img src=x onerror="alert(1)">`)).not.toContain("<img");
+  });
+
+  test.each(["javascript:alert(1)", "data:text/html,x", "//evil.example", "/\\evil.example"])("a link to %s is dropped", (href) => {
+    expect(renderReply(`[x](${href})`)).not.toContain("<a");
+  });
+
+  test.each(["https://example.com", "/docs/a", "#top", "mailto:a@example.com"])("a link to %s is kept", (href) => {
+    expect(renderReply(`[x](${href})`)).toContain(`href="${href}"`);
+  });
+});
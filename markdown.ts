@@ -0,0 +1,73 @@
+import { Marked } from "marked";
+import hljs from "highlight.js/lib/common";
+import { escapeHtml } from "./html";
+import { mathExtension } from "./math";
+
+// ---------------------------------------------------------------------------
+// Assistant replies
+// ---------------------------------------------------------------------------
+//
+// Chat replies go through the same marked options and math extension as doc
+// pages, so equations come out as the same server-side SVG. Unlike docs,
+// though, the text is model output and can echo anything the agent read, so
+// none of it is trusted: raw HTML is shown as text, links keep only http(s),
+// mailto and same-site targets, images become links instead of loading from
+// wherever the model pointed, and TeX runs in MathJax's safe mode.
+
+// "/\host" counts as same-site only on paper: browsers read it as "//host".
+const SAFE_URL = /^(https?:|mailto:|#|\/(?![\/\\]))/i;
+
+const replyMarked = new Marked({ breaks: true, gfm: true }, mathExtension({ safe: true }), {
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens);
+      if (!SAFE_URL.test(href)) return text;
+      const t = title ? ` title="${escapeHtml(title)}"` : "";
+      return `<a href="${escapeHtml(href)}"${t} target="_blank" rel="noopener noreferrer">${text}</a>`;
+    },
+    image({ href, text }) {
+      const label = escapeHtml(text || href);
+      if (!SAFE_URL.test(href)) return label;
+      return `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${label}</a>`;
+    },
+    code({ text, lang }) {
+      const language = (lang ?? "").trim().split(/\s+/)[0];
+      const known = language !== "" && hljs.getLanguage(language) !== undefined;
+      const body = known ? hljs.highlight(text, { language, ignoreIllegals: true }).value : escapeHtml(text);
+      const cls = known ? ` class="hljs language-${escapeHtml(language)}"` : ` class="hljs"`;
+      return `<pre><code${cls}>${body}</code></pre>\n`;
+    },
+  },
+});
+
+/** Sanitized HTML for an assistant message, complete or still streaming. */
+export function renderReply(markdown: string): string {
+  return replyMarked.parse(markdown, { async: false });
+}
+
+// highlight.js token colours, following the page's light/dark scheme.
+export const HIGHLIGHT_CSS = `
+  .hljs-comment, .hljs-quote { color: #6e7781; font-style: italic; }
+  .hljs-keyword, .hljs-selector-tag, .hljs-literal, .hljs-doctag { color: #cf222e; }
+  .hljs-string, .hljs-regexp, .hljs-addition { color: #0a3069; }
+  .hljs-number, .hljs-symbol, .hljs-bullet, .hljs-variable, .hljs-template-variable { color: #0550ae; }
+  .hljs-title, .hljs-section, .hljs-title.function_ { color: #8250df; }
+  .hljs-type, .hljs-built_in, .hljs-title.class_, .hljs-attr, .hljs-attribute { color: #953800; }
+  .hljs-meta, .hljs-tag, .hljs-name { color: #116329; }
+  .hljs-deletion { color: #82071e; background: #ffebe9; }
+  .hljs-emphasis { font-style: italic; }
+  .hljs-strong { font-weight: 600; }
+  @media (prefers-color-scheme: dark) {
+    .hljs-comment, .hljs-quote { color: #8b949e; }
+    .hljs-keyword, .hljs-selector-tag, .hljs-literal, .hljs-doctag { color: #ff7b72; }
+    .hljs-string, .hljs-regexp, .hljs-addition { color: #a5d6ff; }
+    .hljs-number, .hljs-symbol, .hljs-bullet, .hljs-variable, .hljs-template-variable { color: #79c0ff; }
+    .hljs-title, .hljs-section, .hljs-title.function_ { color: #d2a8ff; }
+    .hljs-type, .hljs-built_in, .hljs-title.class_, .hljs-attr, .hljs-attribute { color: #ffa657; }
+    .hljs-meta, .hljs-tag, .hljs-name { color: #7ee787; }
+    .hljs-deletion { color: #ffdcd7; background: #67060c; }
+  }
+`;
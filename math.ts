@@ -0,0 +1,142 @@
+import { Tokenizer, type MarkedExtension, type Tokens } from "marked";
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import type { LiteElement } from "mathjax-full/js/adaptors/lite/Element.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages.js";
+import { createLru } from "./cache";
+import { escapeHtml } from "./html";
+
+// ---------------------------------------------------------------------------
+// TeX → SVG
+// ---------------------------------------------------------------------------
+//
+// MathJax runs in-process with a DOM-less adaptor, so pages arrive with their
+// math already typeset: no CDN, no flash of raw $...$, and exported pages
+// render offline. "local" font caching puts the glyph paths each equation
+// uses inside its own <svg>, so every equation is self-contained.
+
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+
+function texDocument(packages: string[]) {
+  const svg = new SVG({ fontCache: "local" });
+  const doc = mathjax.document("", { InputJax: new TeX({ packages }), OutputJax: svg });
+  return { svg, doc };
+}
+
+const trusted = texDocument(AllPackages);
+
+// TeX from the chat agent isn't ours: without the html package there is no
+// \href, \class, \style or \cssId, so it can't smuggle links or markup into
+// the SVG. Anything using them renders as a MathJax error instead.
+const UNSAFE_PACKAGES = ["html", "require", "autoload"];
+const untrusted = texDocument(AllPackages.filter((p) => !UNSAFE_PACKAGES.includes(p)));
+
+// Streaming chat re-renders the same equations many times.
+const untrustedCache = createLru<string>(500);
+
+/** Stylesheet for the generated SVG containers — include it once per page. */
+export const MATH_CSS: string = adaptor.textContent(trusted.svg.styleSheet(trusted.doc) as never);
+
+// The lite adaptor writes some attributes (style, href, ...) out as they are,
+// so a `"` that TeX put in one — \unicode's font, say — would close the
+// attribute and let the rest of the value through as markup. Every
+// attribute is quoted before the SVG is serialized, trusted or not.
+function quoteAttributes(node: LiteElement): void {
+  for (const { name, value } of adaptor.allAttributes(node)) {
+    if (value.includes('"')) adaptor.setAttribute(node, name, value.replace(/"/g, "&quot;"));
+  }
+  for (const child of adaptor.childNodes(node)) {
+    if (adaptor.kind(child) !== "#text" && adaptor.kind(child) !== "#comment") quoteAttributes(child as LiteElement);
+  }
+}
+
+/** Typeset TeX to SVG. `safe` is for TeX we didn't write (see above). */
+export function renderTex(tex: string, display: boolean, safe = false): string {
+  const key = `${display ? "D" : "I"}${tex}`;
+  const cached = safe ? untrustedCache.get(key) : undefined;
+  if (cached !== undefined) return cached;
+  let html: string;
+  try {
+    const node = (safe ? untrusted : trusted).doc.convert(tex, { display });
+    quoteAttributes(node);
+    html = adaptor.outerHTML(node);
+  } catch {
+    // malformed TeX that MathJax can't even turn into an error node
+    const delim = display ? "$$" : "$";
+    html = `<code class="math-error">${escapeHtml(delim + tex + delim)}</code>`;
+  }
+  if (safe) untrustedCache.set(key, html);
+  return html;
+}
+
+// ---------------------------------------------------------------------------
+// marked extension
+// ---------------------------------------------------------------------------
+//
+// Inline `$...$` follows the usual heuristics so prices survive: no space just
+// inside the delimiters and no digit right after the closing `$`. Display
+// `$$...$$` may span lines, either as its own block or inside a paragraph.
+// Code spans and fenced code are lexed before any of this runs, so dollars in
+// code are left alone — the same as MathJax's skipHtmlTags.
+
+const BLOCK_MATH = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n+|$)/;
+const INLINE_DISPLAY_MATH = /^\$\$([\s\S]+?)\$\$/;
+const INLINE_MATH = /^\$(?![\s$])((?:\\[\s\S]|[^\\$])+?)(?<![\s\\])\$(?!\d)/;
+
+// The same spans, anywhere in a string (used to mask them from emphasis).
+const ANY_MATH = /\$\$[\s\S]+?\$\$|\$(?![\s$])(?:\\[\s\S]|[^\\$])+?(?<![\s\\])\$(?!\d)/g;
+
+interface MathToken extends Tokens.Generic {
+  text: string;
+  display: boolean;
+}
+
+export function mathExtension({ safe = false } = {}): MarkedExtension {
+  return {
+    extensions: [
+      {
+        name: "blockMath",
+        level: "block",
+        start: (src) => src.match(/^\$\$/m)?.index,
+        tokenizer(src) {
+          const m = BLOCK_MATH.exec(src);
+          if (!m) return undefined;
+          return { type: "blockMath", raw: m[0], text: m[1].trim(), display: true } satisfies MathToken;
+        },
+        renderer: (token) => `<div class="math math-display">${renderTex(token.text, true, safe)}</div>\n`,
+      },
+      {
+        name: "inlineMath",
+        level: "inline",
+        start(src) {
+          const i = src.indexOf("$");
+          return i === -1 ? undefined : i;
+        },
+        tokenizer(src) {
+          const m = INLINE_DISPLAY_MATH.exec(src) ?? INLINE_MATH.exec(src);
+          if (!m) return undefined;
+          const display = m[0].startsWith("$$");
+          return { type: "inlineMath", raw: m[0], text: m[1].trim(), display } satisfies MathToken;
+        },
+        renderer: (token) =>
+          token.display
+            ? `<span class="math math-display">${renderTex(token.text, true, safe)}</span>`
+            : `<span class="math math-inline">${renderTex(token.text, false, safe)}</span>`,
+      },
+    ],
+    tokenizer: {
+      // Emphasis delimiters are paired by scanning ahead in a "masked" copy of
+      // the source. Without masking the math too, `$a_1 * b_2$ and *c*` pairs
+      // the `*` inside TeX with a later one and splits the equation in two.
+      emStrong(src, maskedSrc, prevChar) {
+        const masked = maskedSrc.replace(ANY_MATH, (m) => "a".repeat(m.length));
+        // returning undefined (not false) stops marked from retrying unmasked
+        return Tokenizer.prototype.emStrong.call(this, src, masked, prevChar);
+      },
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// ---------------------------------------------------------------------------
+// HTML → PDF via headless Chromium
+// ---------------------------------------------------------------------------
+//
+// Printing goes through a real browser so the PDF matches the page's print
+// stylesheet exactly. Set CHROME_BIN to pick the binary; otherwise the usual
+// names are looked up on PATH. Without a browser, htmlToPdf() returns null
+// and callers fall back to a print-ready page.
+//
+// The page is served to the browser from a one-off server on the loopback
+// interface rather than opened as a file: an http:// page can't pull in
+// file:// URLs, so nothing on this machine ends up in the PDF. The page is
+// too big for a data: URL once its images are inlined (Linux caps a single
+// argument at 128 KiB).
+
+const CANDIDATES = ["chromium", "chromium-browser", "google-chrome", "google-chrome-stable"];
+const PDF_TIMEOUT_MS = 30_000;
+
+let browser: string | null | undefined; // undefined = not looked up yet
+
+function findBrowser(): string | null {
+  if (browser !== undefined) return browser;
+  browser = process.env.CHROME_BIN || CANDIDATES.map((name) => Bun.which(name)).find(Boolean) || null;
+  if (!browser) console.log("pdf: no Chromium found — set CHROME_BIN to enable PDF export");
+  return browser;
+}
+
+/** Print a standalone HTML page to PDF. Returns null if no browser is available. */
+export async function htmlToPdf(html: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  const bin = findBrowser();
+  if (!bin) return null;
+
+  const dir = await mkdtemp(join(tmpdir(), "md-server-pdf-"));
+  const page = Bun.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch: () =>
+      new Response(html, {
+        headers: { "Content-Type": "text/html; charset=utf-8", "Content-Security-Policy": "script-src 'none'" },
+      }),
+  });
+  try {
+    const output = join(dir, "page.pdf");
+
+    const proc = Bun.spawn(
+      [
+        bin,
+        "--headless",
+        "--disable-gpu",
+        "--no-first-run",
+        "--no-sandbox", // the service runs as root, where Chromium's own sandbox won't start
+        "--no-pdf-header-footer",
+        `--user-data-dir=${join(dir, "profile")}`,
+        `--print-to-pdf=${output}`,
+        page.url.href,
+      ],
+      { stdout: "ignore", stderr: "pipe", timeout: PDF_TIMEOUT_MS },
+    );
+    const code = await proc.exited;
+    if (code !== 0) {
+      const stderr = await new Response(proc.stderr).text();
+      throw new Error(`chromium exited with ${code}: ${stderr.trim().split("\n").pop()}`);
+    }
+    return new Uint8Array(await readFile(output));
+  } finally {
+    page.stop(true);
+    await rm(dir, { recursive: true, force: true });
+  }
+}
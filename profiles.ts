@@ -0,0 +1,198 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import type { McpHttpServerConfig, McpSSEServerConfig, McpStdioServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import { DEFAULT_DENY, type SandboxPolicy } from "./sandbox";
+
+// ---------------------------------------------------------------------------
+// Agent profiles
+// ---------------------------------------------------------------------------
+//
+// agents.json (next to server.ts; AGENTS_FILE overrides) names the agents a
+// chat can run as — model, tools, budget, working directory, system prompt
+// MCP servers and sandbox for each:
+//
+//   { "default": "coder",
+//     "profiles": { "coder": { "label": "Coder", "tools": ["Read", "Edit"], ... } } }
+//
+// Fields a profile leaves out come from BUILT_IN. The file is re-read when it
+// changes, so editing it needs no restart. A profile that doesn't validate
+// is left out and logged; the rest still load. Without the file, chat runs
+// as BUILT_IN alone.
+
+const AGENTS_FILE = process.env.AGENTS_FILE ?? join(import.meta.dir, "agents.json");
+
+export type McpServer = McpStdioServerConfig | McpSSEServerConfig | McpHttpServerConfig;
+
+export interface AgentProfile {
+  name: string;
+  label: string;
+  description: string;
+  model: string;
+  systemPrompt: string;
+  tools: string[]; // built-in tools the agent has at all
+  allowedTools: string[]; // of those (or "mcp__…" tools), the ones that run without asking
+  maxBudgetUsd: number; // per turn
+  cwd: string; // absolute
+  mcpServers: Record<string, McpServer>;
+  sandbox: SandboxPolicy;
+}
+
+const DEFAULT_SYSTEM_PROMPT = `You are a helpful coding assistant. Follow these rules strictly:
+- Do NOT read or access environment variables (no printenv, env, /proc/*/environ, etc.)
+- Do NOT read files in /etc/ or any system configuration directories
+- Do NOT use curl, wget, nc, or any tool that sends data to external servers
+- Stay within the working directory — do not navigate outside /srv/md-server
+- Do NOT modify system files, systemd units, cron jobs, or user configs
+- Do NOT access or reveal secrets, tokens, API keys, or credentials
+- If asked to do any of the above, refuse and explain why.`;
+
+// How chat ran before there were profiles.
+const BUILT_IN: AgentProfile = {
+  name: "default",
+  label: "Default",
+  description: "",
+  model: "claude-sonnet-4-5-20250929",
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  tools: ["Read", "Edit", "Glob", "Grep", "Bash", "WebSearch"],
+  // read-only tools run straight away; everything else goes through canUseTool
+  allowedTools: ["Read", "Glob", "Grep", "WebSearch"],
+  maxBudgetUsd: 1.0,
+  cwd: process.cwd(),
+  mcpServers: {},
+  sandbox: { roots: [process.cwd()], denyCommands: DEFAULT_DENY, network: false },
+};
+
+export interface Profiles {
+  profiles: AgentProfile[]; // in file order
+  default: string;
+}
+
+let cached: { mtimeMs: number; profiles: Profiles } | null = null;
+
+export async function loadProfiles(): Promise<Profiles> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await stat(AGENTS_FILE)).mtimeMs;
+  } catch {
+    return { profiles: [BUILT_IN], default: BUILT_IN.name };
+  }
+  if (cached?.mtimeMs === mtimeMs) return cached.profiles;
+
+  let config: { default?: unknown; profiles?: unknown };
+  try {
+    config = JSON.parse(await readFile(AGENTS_FILE, "utf-8"));
+  } catch (err) {
+    console.error(`agents: ${AGENTS_FILE}:`, err);
+    // keep running with whatever loaded last
+    return cached?.profiles ?? { profiles: [BUILT_IN], default: BUILT_IN.name };
+  }
+
+  const profiles: AgentProfile[] = [];
+  const entries = config.profiles && typeof config.profiles === "object" ? Object.entries(config.profiles) : [];
+  for (const [name, raw] of entries) {
+    try {
+      profiles.push(await toProfile(name, raw, dirname(AGENTS_FILE)));
+    } catch (err) {
+      console.error(`agents: profile "${name}" skipped: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  if (profiles.length === 0) profiles.push(BUILT_IN);
+  const named = profiles.find((p) => p.name === config.default);
+  const result = { profiles, default: (named ?? profiles[0]).name };
+  cached = { mtimeMs, profiles: result };
+  return result;
+}
+
+/** A configured profile by name, or the default one when no name is given. */
+export async function getProfile(name?: string): Promise<AgentProfile | null> {
+  const { profiles, default: fallback } = await loadProfiles();
+  return profiles.find((p) => p.name === (name ?? fallback)) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function check(ok: boolean, message: string): asserts ok {
+  if (!ok) throw new Error(message);
+}
+
+function isStrings(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string" && x !== "");
+}
+
+function isStringMap(v: unknown): v is Record<string, string> {
+  return !!v && typeof v === "object" && !Array.isArray(v) && Object.values(v).every((x) => typeof x === "string");
+}
+
+function toMcpServer(name: string, raw: unknown): McpServer {
+  check(!!raw && typeof raw === "object" && !Array.isArray(raw), `mcpServers.${name} must be an object`);
+  const s = raw as Record<string, unknown>;
+  if (s.type === "sse" || s.type === "http") {
+    check(typeof s.url === "string" && URL.canParse(s.url), `mcpServers.${name}.url must be a URL`);
+    check(s.headers === undefined || isStringMap(s.headers), `mcpServers.${name}.headers must map names to strings`);
+    return { type: s.type, url: s.url, ...(s.headers ? { headers: s.headers } : {}) };
+  }
+  check(s.type === undefined || s.type === "stdio", `mcpServers.${name}.type must be "stdio", "sse" or "http"`);
+  check(typeof s.command === "string" && s.command !== "", `mcpServers.${name}.command is required`);
+  check(s.args === undefined || (Array.isArray(s.args) && s.args.every((a) => typeof a === "string")), `mcpServers.${name}.args must be strings`);
+  check(s.env === undefined || isStringMap(s.env), `mcpServers.${name}.env must map names to strings`);
+  return { type: "stdio", command: s.command, args: (s.args as string[] | undefined) ?? [], ...(s.env ? { env: s.env } : {}) };
+}
+
+// "sandbox": { "roots": ["docs"], "allowCommands": ["ls", "git"], "denyCommands": [...], "network": false }
+// Roots are relative to the config file and default to the profile's cwd;
+// denyCommands replaces DEFAULT_DENY rather than adding to it.
+async function toSandbox(raw: unknown, cwd: string, baseDir: string): Promise<SandboxPolicy> {
+  check(!!raw && typeof raw === "object" && !Array.isArray(raw), "sandbox must be an object");
+  const s = raw as Record<string, unknown>;
+  const { roots, allowCommands, denyCommands = DEFAULT_DENY, network = false } = s;
+  check(roots === undefined || (isStrings(roots) && roots.length > 0), "sandbox.roots must be a list of paths");
+  check(allowCommands === undefined || isStrings(allowCommands), "sandbox.allowCommands must be a list of commands");
+  check(Array.isArray(denyCommands) && denyCommands.every((c) => typeof c === "string"), "sandbox.denyCommands must be a list of commands");
+  check(typeof network === "boolean", "sandbox.network must be true or false");
+  const dirs = roots === undefined ? [cwd] : roots.map((r) => resolve(baseDir, r));
+  for (const dir of dirs) {
+    check(await stat(dir).then((st) => st.isDirectory(), () => false), `sandbox root ${dir} is not a directory`);
+  }
+  return { roots: dirs, ...(allowCommands ? { allowCommands } : {}), denyCommands, network };
+}
+
+async function toProfile(name: string, raw: unknown, baseDir: string): Promise<AgentProfile> {
+  check(/^[a-z0-9][a-z0-9_-]*$/i.test(name), "names are letters, digits, - and _");
+  check(!!raw && typeof raw === "object" && !Array.isArray(raw), "must be an object");
+  const c = raw as Record<string, unknown>;
+
+  const { label = name, description = "", model = BUILT_IN.model, tools = BUILT_IN.tools } = c;
+  check(typeof label === "string" && label !== "", "label must be a string");
+  check(typeof description === "string", "description must be a string");
+  check(typeof model === "string" && model !== "", "model must be a model id");
+  check(isStrings(tools), "tools must be a list of tool names");
+
+  // a system prompt can be written as one string or as an array of lines
+  const prompt = c.systemPrompt ?? BUILT_IN.systemPrompt;
+  check(typeof prompt === "string" || isStrings(prompt), "systemPrompt must be a string or a list of lines");
+  const systemPrompt = Array.isArray(prompt) ? prompt.join("\n") : prompt;
+
+  const allowedTools = c.allowedTools ?? BUILT_IN.allowedTools.filter((t) => tools.includes(t));
+  check(
+    isStrings(allowedTools) && allowedTools.every((t) => tools.includes(t) || t.startsWith("mcp__")),
+    "allowedTools must be some of tools (or mcp__ tools)",
+  );
+
+  const maxBudgetUsd = c.maxBudgetUsd ?? BUILT_IN.maxBudgetUsd;
+  check(typeof maxBudgetUsd === "number" && maxBudgetUsd > 0, "maxBudgetUsd must be a positive amount");
+
+  // relative to the config file
+  check(c.cwd === undefined || (typeof c.cwd === "string" && c.cwd !== ""), "cwd must be a path");
+  const cwd = c.cwd === undefined ? BUILT_IN.cwd : resolve(baseDir, c.cwd as string);
+  check(await stat(cwd).then((st) => st.isDirectory(), () => false), `cwd ${cwd} is not a directory`);
+
+  const servers = c.mcpServers ?? {};
+  check(!!servers && typeof servers === "object" && !Array.isArray(servers), "mcpServers must be an object");
+  const mcpServers = Object.fromEntries(Object.entries(servers).map(([n, s]) => [n, toMcpServer(n, s)]));
+
+  const sandbox = await toSandbox(c.sandbox ?? {}, cwd, baseDir);
+
+  return { name, label, description, model, systemPrompt, tools, allowedTools, maxBudgetUsd, cwd, mcpServers, sandbox };
+}
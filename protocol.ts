@@ -1,7 +1,141 @@
+// Bumped whenever a message changes shape. The client sends its version with
+// auth; the server closes the socket (4400) if it doesn't speak it.
+export const PROTOCOL_VERSION = 2
+
+// "always" allows this call and every later one matching `rule` in the
+// same conversation.
+export type PermissionDecision = "allow" | "deny" | "always"
+
 export type ChatEvent =
-  | { type: "auth-ok" }
   | { type: "text-delta"; delta: string }
-  | { type: "tool-use"; name: string; input: unknown }
-  | { type: "tool-result"; name: string; output: string }
+  | { type: "tool-use"; id: string; name: string; input: unknown }
+  // paired with its tool-use by id; `truncated` is the full length when output was cut
+  | { type: "tool-result"; id: string; name: string; output: string; isError: boolean; truncated?: number }
+  | { type: "permission-request"; id: string; name: string; input: unknown; rule: string }
+  | { type: "permission-resolved"; id: string; decision: PermissionDecision }
   | { type: "done"; cost: number; turns: number; session_id: string }
-  | { type: "error"; message: string; recoverable: boolean }
+  // the user stopped the turn; cost and session are missing if the agent had to be killed
+  | { type: "cancelled"; cost?: number; session_id?: string }
+  // `cost` is set when the agent ended the turn itself: out of budget or turns, or failing
+  | { type: "error"; message: string; recoverable: boolean; cost?: number }
+
+// The agent changed a document in docs/; the chat links to its page.
+export type DocEditedEvent = { type: "doc-edited"; slug: string }
+
+// A saved conversation: what the user typed, interleaved with the events the
+// agent streamed back.
+export type TranscriptEntry = { type: "prompt"; text: string } | ChatEvent | DocEditedEvent
+
+// Server-rendered HTML of the assistant message streamed so far: sanitized
+// markdown with highlighted code and typeset math. Each one replaces the last.
+export type RenderEvent = { type: "text-html"; html: string }
+
+export interface ConversationSummary {
+  id: string
+  title: string
+  created: string
+  updated: string
+  profile?: string // agent profile name; missing means the default
+}
+
+// The agent profiles a new conversation can run as, sent after auth.
+export interface ProfileSummary {
+  name: string
+  label: string
+  description: string
+}
+
+export type HistoryEvent =
+  | { type: "conversations"; conversations: ConversationSummary[] }
+  | { type: "queue"; prompts: string[] } // follow-ups waiting for the current turn
+  | { type: "conversation"; id: string; title: string; profile: string; entries: (TranscriptEntry | RenderEvent)[] }
+  | { type: "conversation-started"; id: string; title: string; profile: string }
+  | { type: "profiles"; profiles: ProfileSummary[]; default: string }
+
+// What `@slug` in a prompt can refer to, sent after auth and after each turn.
+export type DocsEvent = { type: "docs"; docs: { slug: string; title: string }[] }
+
+// The signed-in user's chat spend in USD, sent after auth and after each
+// turn. A limit is missing when the user has no budget for that period.
+export type UsageEvent = { type: "usage"; user: string; today: number; month: number; daily?: number; monthly?: number }
+
+// ---------------------------------------------------------------------------
+// Connection
+// ---------------------------------------------------------------------------
+//
+// Every event the server sends after auth-ok carries `seq`, counting up from
+// 1 per connection, except pings. If the socket drops, the client reconnects
+// with auth's `resume` (from auth-ok) and `after` (the last seq it handled):
+// a running turn keeps going meanwhile, and the events the client missed are
+// replayed before new ones. A rendered reply that a later one replaced isn't
+// replayed, so seqs can skip. When too much was missed, the client gets the
+// open conversation again instead. A connection can be resumed for
+// RESUME_WINDOW_MS after it dropped; after that, waiting tool calls are denied
+// and queued prompts dropped, as if the user had left.
+//
+// The server pings every HEARTBEAT_MS and the client answers with a pong.
+// Either side that hears nothing from the other for twice that long treats
+// the connection as dead: the server drops it, the client reconnects.
+
+export const HEARTBEAT_MS = 15_000
+export const RESUME_WINDOW_MS = 60_000
+
+export type ConnectionEvent =
+  // resumed: this connection picked up where `resume` left off
+  | { type: "auth-ok"; version: number; resume: string; resumed: boolean; busy: boolean }
+  | { type: "ping" }
+
+export type ServerEvent = ChatEvent | TranscriptEntry | RenderEvent | HistoryEvent | DocsEvent | UsageEvent | ConnectionEvent
+
+export type Sequenced<E extends ServerEvent = ServerEvent> = E & { seq: number }
+
+// Client frames are JSON, auth first. A prompt without an open conversation
+// starts a new one, running as `profile` (or the default); the profile stays
+// with the conversation. A prompt sent while a turn is running is queued behind
+// it, or with mode "interject" stops the turn and goes next.
+export type ClientMessage =
+  | { type: "auth"; token: string; version: number; resume?: string; after?: number }
+  | { type: "pong" }
+  | { type: "prompt"; text: string; mode?: "queue" | "interject"; profile?: string }
+  | { type: "cancel" }
+  | { type: "open"; id: string }
+  | { type: "new" }
+  | { type: "rename"; id: string; title: string }
+  | { type: "delete"; id: string }
+  | { type: "permission"; id: string; decision: PermissionDecision }
+
+// Field types of each message; "?" marks optional ones.
+const CLIENT_MESSAGES: Record<ClientMessage["type"], Record<string, string>> = {
+  auth: { token: "string", version: "number", resume: "string?", after: "number?" },
+  pong: {},
+  prompt: { text: "string", mode: "string?", profile: "string?" },
+  cancel: {},
+  open: { id: "string" },
+  new: {},
+  rename: { id: "string", title: "string" },
+  delete: { id: "string" },
+  permission: { id: "string", decision: "string" },
+}
+
+/** A client frame as a ClientMessage, or null if it isn't one. Values are left to the handler to check. */
+export function parseClientMessage(text: string): ClientMessage | null {
+  let msg: unknown
+  try {
+    msg = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (!msg || typeof msg !== "object" || Array.isArray(msg)) return null
+  const m = msg as Record<string, unknown>
+  const fields = typeof m.type === "string" && Object.hasOwn(CLIENT_MESSAGES, m.type) ? CLIENT_MESSAGES[m.type as ClientMessage["type"]] : null
+  if (!fields) return null
+  for (const [key, type] of Object.entries(fields)) {
+    if (m[key] === undefined ? !type.endsWith("?") : typeof m[key] !== type.replace("?", "")) return null
+  }
+  return msg as ClientMessage
+}
+
+export type LiveEvent =
+  | { type: "doc-changed"; slug: string } // edited or added
+  | { type: "doc-removed"; slug: string }
+  | { type: "index-changed" }
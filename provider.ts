@@ -0,0 +1,57 @@
+import type { AgentProfile } from "./profiles"
+import type { ChatEvent, PermissionDecision } from "./protocol"
+
+// ---------------------------------------------------------------------------
+// Chat providers
+// ---------------------------------------------------------------------------
+//
+// A provider runs one turn: it takes the prompt and yields the ChatEvents the
+// server streams to the browser and saves, ending with "done", "cancelled" or
+// "error" (or by throwing, which the server reports as an error). CHAT_PROVIDER
+// picks one:
+//
+//   claude    the Agent SDK (claude.ts), the default
+//   scripted  replays recorded turns from CHAT_SCRIPT (scripted.ts), offline
+//             and deterministic, for tests and demos
+
+export type ChatProvider = (prompt: string, opts: ChatOptions) => AsyncIterable<ChatEvent>
+
+export interface ChatOptions {
+  profile: AgentProfile
+  sessionId?: string // session to resume
+  permissions?: Permissions
+  signal?: AbortSignal // aborting stops the turn; the stream then ends with "cancelled"
+  budget?: number // USD left in the user's budget; lowers the profile's per-turn cap if it's less
+  onViolation?: (name: string, input: Record<string, unknown>, reason: string) => void
+}
+
+export interface PermissionRequest {
+  id: string // the tool-use id
+  name: string
+  input: Record<string, unknown>
+  rule: string
+}
+
+export type Approver = (request: PermissionRequest, signal: AbortSignal) => Promise<PermissionDecision>
+
+export interface Permissions {
+  allow: string[] // rules the user chose to always allow; "always" answers are appended
+  approve?: Approver // without one, anything that needs approval is denied
+}
+
+/** What "always allow" remembers: the exact command for Bash, the whole tool otherwise. */
+export function permissionRule(name: string, input: Record<string, unknown>): string {
+  return name === "Bash" ? `Bash(${String(input.command ?? "")})` : name
+}
+
+/** The provider CHAT_PROVIDER names. Only that one is loaded, so "scripted" never touches the SDK. */
+export async function loadChatProvider(): Promise<ChatProvider> {
+  const name = process.env.CHAT_PROVIDER || "claude"
+  if (name === "claude") return (await import("./claude")).chat
+  if (name === "scripted") {
+    const script = process.env.CHAT_SCRIPT
+    if (!script) throw new Error("CHAT_PROVIDER=scripted needs CHAT_SCRIPT, the recorded turns to replay")
+    return (await import("./scripted")).scriptedChat(script)
+  }
+  throw new Error(`Unknown CHAT_PROVIDER "${name}" (expected "claude" or "scripted")`)
+}
@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Subprocess } from "bun";
+
+// End to end: a real server on its own port and data directory, asked for
+// document histories over HTTP.
+
+const PORT = 3198;
+const BASE = `http://localhost:${PORT}`;
+
+let server: Subprocess;
+let dataDir: string;
+
+// Shaped like a snapshot line, so a history page would show it if it could
+// reach the file.
+const SECRET = JSON.stringify({ id: "1", time: "2026-01-01T00:00:00.000Z", author: { kind: "human" }, content: "not for you" });
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), "md-server-"));
+  await mkdir(join(dataDir, "chats"));
+  await writeFile(join(dataDir, "chats", "abc.jsonl"), SECRET + "\n");
+  server = Bun.spawn(["bun", "run", "server.ts"], {
+    cwd: import.meta.dir,
+    env: { ...process.env, PORT: String(PORT), DATA_DIR: dataDir, REVISIONS: "snapshots", WS_TOKEN: "", ADMIN_TOKEN: "" },
+    stdout: "ignore",
+    stderr: "inherit",
+  });
+  for (let i = 0; i < 100; i++) {
+    if (await fetch(`${BASE}/`).then((r) => r.ok, () => false)) return;
+    await Bun.sleep(100);
+  }
+  throw new Error("server didn't start");
+});
+
+afterAll(async () => {
+  server.kill();
+  await server.exited;
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe("history", () => {
+  test("a document's history lists its revisions", async () => {
+    // the first version of every doc is recorded at startup
+    let body = "";
+    for (let i = 0; i < 50 && !body.includes("?rev=1"); i++) {
+      body = await fetch(`${BASE}/example/history`).then((r) => r.text());
+      await Bun.sleep(100);
+    }
+    expect(body).toContain("?rev=1");
+    const rev = await fetch(`${BASE}/example/history?rev=1`);
+    expect(rev.status).toBe(200);
+  });
+
+  test.each([
+    "/x/..%2F..%2Fchats%2Fabc/history?rev=1",
+    "/..%2Fchats%2Fabc/history?rev=1",
+    "/x/..%2F..%2Fchats%2Fabc/history",
+    "/x/..%2F..%2Fchats%2Fabc",
+  ])("a slug that leaves docs/ is refused: %s", async (path) => {
+    const res = await fetch(BASE + path);
+    expect(res.status).toBe(404);
+    expect(await res.text()).not.toContain("not for you");
+  });
+});
@@ -0,0 +1,327 @@
+import { appendFile, mkdir, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { DATA_DIR, isValidPath, listDocs, resolveInDocs } from "./docs";
+
+// ---------------------------------------------------------------------------
+// Revision history
+// ---------------------------------------------------------------------------
+//
+// Every version of every document, with who made it: the agent (as some chat
+// user, in some conversation) or a person editing docs/ by hand. REVISIONS
+// picks where they're kept:
+//
+//   snapshots  data/revisions/<slug>.jsonl, one line per version with the
+//              whole file, the default
+//   git        commits on REVISIONS_REF in the repo at REVISIONS_GIT_DIR
+//              (data/revisions.git, created bare, by default). Written with
+//              plumbing on a ref of its own, so pointing it at an existing
+//              repo leaves its branches, index and working tree alone.
+//
+// A revision is only recorded when the content differs from the latest one,
+// so the same change seen twice (by the chat and by the watcher) is saved once.
+
+export interface Author {
+  kind: "agent" | "human";
+  user?: string; // the chat user the agent ran for, or who restored a version
+  conversation?: string; // the chat the agent edited in
+  note?: string; // e.g. "Restored the version of …"
+}
+
+export interface Revision {
+  id: string;
+  time: string; // ISO
+  author: Author;
+  deleted?: boolean; // the doc was removed; there's no content
+}
+
+interface RevisionStore {
+  /** Newest first. */
+  list(slug: string): Promise<Revision[]>;
+  /** The content of a revision, or null if there's no such revision (or it's a deletion). */
+  read(slug: string, id: string): Promise<string | null>;
+  save(slug: string, content: string | null, author: Author): Promise<Revision>;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+const SNAPSHOT_DIR = join(DATA_DIR, "revisions");
+
+interface Snapshot extends Revision {
+  content?: string;
+}
+
+function snapshotStore(): RevisionStore {
+  // a slug comes from the URL: one with ".." or the like would reach outside
+  const file = (slug: string) => {
+    if (!isValidPath(`${slug}.md`)) throw new Error(`invalid slug: ${slug}`);
+    return join(SNAPSHOT_DIR, `${slug}.jsonl`);
+  };
+
+  async function snapshots(slug: string): Promise<Snapshot[]> {
+    const path = file(slug);
+    let text: string;
+    try {
+      text = await readFile(path, "utf-8");
+    } catch {
+      return [];
+    }
+    return text.split("\n").flatMap((line) => {
+      try {
+        return line ? [JSON.parse(line) as Snapshot] : [];
+      } catch {
+        return []; // torn last line after a crash
+      }
+    });
+  }
+
+  return {
+    async list(slug) {
+      return (await snapshots(slug)).map(({ content: _, ...revision }) => revision).reverse();
+    },
+    async read(slug, id) {
+      return (await snapshots(slug)).find((s) => s.id === id)?.content ?? null;
+    },
+    async save(slug, content, author) {
+      const all = await snapshots(slug);
+      const revision: Revision = { id: String(all.length + 1), time: new Date().toISOString(), author };
+      if (content === null) revision.deleted = true;
+      await mkdir(dirname(file(slug)), { recursive: true });
+      await appendFile(file(slug), JSON.stringify(content === null ? revision : { ...revision, content }) + "\n", { mode: 0o600 });
+      return revision;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Git
+// ---------------------------------------------------------------------------
+
+const GIT_DIR = process.env.REVISIONS_GIT_DIR ?? join(DATA_DIR, "revisions.git");
+const GIT_REF = process.env.REVISIONS_REF ?? "refs/md-server/revisions";
+
+// Who a commit is by, and what the subject line can't say, as trailers.
+const TRAILERS = { kind: "Md-Author", user: "Md-User", conversation: "Md-Conversation", deleted: "Md-Deleted" };
+
+async function git(args: string[], opts: { input?: string; env?: Record<string, string> } = {}): Promise<string> {
+  const proc = Bun.spawn(["git", ...args], {
+    env: { ...process.env, GIT_DIR, ...opts.env },
+    stdin: opts.input === undefined ? "ignore" : new TextEncoder().encode(opts.input),
+    stdout: "pipe",
+    stderr: "pipe",
+  });
+  const [out, err, code] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited]);
+  if (code !== 0) throw new Error(`git ${args[0]}: ${err.trim() || `exited with code ${code}`}`);
+  return out;
+}
+
+function gitStore(): RevisionStore {
+  let ready: Promise<void> | null = null;
+  const init = () =>
+    (ready ??= (async () => {
+      // an existing repo is used as it is
+      if (await stat(GIT_DIR).then(() => true, () => false)) return;
+      await mkdir(GIT_DIR, { recursive: true });
+      await git(["init", "--bare", "--quiet", GIT_DIR]);
+    })());
+  const head = () => git(["rev-parse", "--verify", "--quiet", GIT_REF]).then((out) => out.trim(), () => null);
+
+  return {
+    async list(slug) {
+      await init();
+      if (!(await head())) return [];
+      // NUL between fields, SOH between commits: bodies can hold anything else
+      const out = await git(["log", "--format=%H%x00%aI%x00%B%x01", GIT_REF, "--", `${slug}.md`]);
+      return out
+        .split("\x01")
+        .filter((chunk) => chunk.trim())
+        .map((chunk) => {
+          const [id, time, body] = chunk.replace(/^\n/, "").split("\0");
+          const trailers = new Map(
+            body.split("\n").flatMap((line) => {
+              const m = line.match(/^(Md-[A-Za-z]+): (.*)$/);
+              return m ? [[m[1], m[2]] as const] : [];
+            }),
+          );
+          const subject = body.split("\n")[0];
+          const author: Author = { kind: trailers.get(TRAILERS.kind) === "agent" ? "agent" : "human" };
+          if (trailers.has(TRAILERS.user)) author.user = trailers.get(TRAILERS.user);
+          if (trailers.has(TRAILERS.conversation)) author.conversation = trailers.get(TRAILERS.conversation);
+          if (!/^(Update|Delete) /.test(subject)) author.note = subject;
+          const revision: Revision = { id, time: new Date(time).toISOString(), author };
+          if (trailers.get(TRAILERS.deleted) === "true") revision.deleted = true;
+          return revision;
+        });
+    },
+    async read(slug, id) {
+      if (!/^[0-9a-f]{40}$/.test(id)) return null;
+      await init();
+      return git(["cat-file", "blob", `${id}:${slug}.md`]).catch(() => null);
+    },
+    async save(slug, content, author) {
+      await init();
+      const parent = await head();
+      const path = `${slug}.md`;
+      // a throwaway index, so a repo's own index is never touched
+      const index = join(tmpdir(), `md-server-index-${process.pid}-${crypto.randomUUID()}`);
+      const env = { GIT_INDEX_FILE: index };
+      try {
+        await git(parent ? ["read-tree", parent] : ["read-tree", "--empty"], { env });
+        if (content === null) {
+          // mode 0 removes the entry; --force-remove would want a work tree
+          await git(["update-index", "--index-info"], { env, input: `0 ${"0".repeat(40)}\t${path}\n` });
+        } else {
+          const blob = (await git(["hash-object", "-w", "--stdin"], { input: content })).trim();
+          await git(["update-index", "--add", "--cacheinfo", `100644,${blob},${path}`], { env });
+        }
+        const tree = (await git(["write-tree"], { env })).trim();
+
+        const lines = [author.note ?? `${content === null ? "Delete" : "Update"} ${slug}`, "", `${TRAILERS.kind}: ${author.kind}`];
+        if (author.user) lines.push(`${TRAILERS.user}: ${author.user.replace(/\n/g, " ")}`);
+        if (author.conversation) lines.push(`${TRAILERS.conversation}: ${author.conversation}`);
+        if (content === null) lines.push(`${TRAILERS.deleted}: true`);
+        const commit = (
+          await git(["commit-tree", tree, ...(parent ? ["-p", parent] : []), "-F", "-"], {
+            input: lines.join("\n") + "\n",
+            env: {
+              GIT_AUTHOR_NAME: author.user ?? (author.kind === "agent" ? "Agent" : "md-server"),
+              GIT_AUTHOR_EMAIL: `${author.kind}@md-server`,
+              GIT_COMMITTER_NAME: "md-server",
+              GIT_COMMITTER_EMAIL: "md-server@localhost",
+            },
+          })
+        ).trim();
+        // fails rather than losing a commit if the ref moved under us
+        await git(["update-ref", GIT_REF, commit, parent ?? ""]);
+        const revision: Revision = { id: commit, time: new Date().toISOString(), author };
+        if (content === null) revision.deleted = true;
+        return revision;
+      } finally {
+        await rm(index, { force: true });
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+function openStore(): RevisionStore {
+  const name = process.env.REVISIONS || "snapshots";
+  if (name === "snapshots") return snapshotStore();
+  if (name === "git") return gitStore();
+  throw new Error(`Unknown REVISIONS "${name}" (expected "snapshots" or "git")`);
+}
+
+const store = openStore();
+
+// Saves run one at a time: they compare against the latest revision, and the
+// git store has a single ref to move.
+let saving: Promise<unknown> = Promise.resolve();
+
+export function listRevisions(slug: string): Promise<Revision[]> {
+  return store.list(slug);
+}
+
+export function readRevision(slug: string, id: string): Promise<string | null> {
+  return store.read(slug, id);
+}
+
+/**
+ * Run `work` in the same queue as recordRevision, so a check it makes (an
+ * If-Match, say) still holds when it writes, and nothing else saved in
+ * between.
+ */
+export function queueSave<T>(work: () => Promise<T>): Promise<T> {
+  const next = saving.then(work);
+  saving = next.catch(() => {});
+  return next;
+}
+
+/**
+ * Record the doc as it is now, if that differs from its latest revision. A
+ * doc that's gone is recorded as deleted, once. Returns the new revision, or
+ * null if there was nothing to record.
+ */
+export function recordRevision(slug: string, author: Author): Promise<Revision | null> {
+  const next = saving.then(async () => {
+    let content: string | null;
+    try {
+      content = await readFile(await resolveInDocs(`${slug}.md`), "utf-8");
+    } catch {
+      content = null;
+    }
+    const [latest] = await store.list(slug);
+    if (!latest ? content === null : latest.deleted ? content === null : content === (await store.read(slug, latest.id))) {
+      return null;
+    }
+    return store.save(slug, content, author);
+  });
+  saving = next.catch((err) => console.error(`revisions: ${slug}:`, err));
+  return next;
+}
+
+/** Record every doc that changed since the last revision, e.g. while the server was down. */
+export async function recordAll(author: Author): Promise<void> {
+  for (const doc of await listDocs()) await recordRevision(doc.slug, author).catch(() => {});
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+export type DiffLine = { op: "same" | "add" | "del"; text: string; a?: number; b?: number }; // 1-based line numbers
+
+// Past this many line pairs, the changed middle is shown as replaced wholesale.
+const DIFF_MAX_CELLS = 4_000_000;
+
+/** A line diff from `a` to `b`: the longest common subsequence, with the shared ends trimmed first. */
+export function diffLines(a: string, b: string): DiffLine[] {
+  const lines = (text: string) => (text === "" ? [] : text.replace(/\n$/, "").split("\n"));
+  const x = lines(a);
+  const y = lines(b);
+  let start = 0;
+  while (start < x.length && start < y.length && x[start] === y[start]) start++;
+  let endX = x.length;
+  let endY = y.length;
+  while (endX > start && endY > start && x[endX - 1] === y[endY - 1]) endX--, endY--;
+
+  const out: DiffLine[] = [];
+  for (let i = 0; i < start; i++) out.push({ op: "same", text: x[i], a: i + 1, b: i + 1 });
+
+  const n = endX - start;
+  const m = endY - start;
+  if (n * m > DIFF_MAX_CELLS) {
+    for (let i = start; i < endX; i++) out.push({ op: "del", text: x[i], a: i + 1 });
+    for (let j = start; j < endY; j++) out.push({ op: "add", text: y[j], b: j + 1 });
+  } else {
+    // lcs[i][j]: length of the LCS of x[start+i..endX) and y[start+j..endY)
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = x[start + i] === y[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && x[start + i] === y[start + j]) {
+        out.push({ op: "same", text: x[start + i], a: start + i + 1, b: start + j + 1 });
+        i++, j++;
+      } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        out.push({ op: "del", text: x[start + i], a: start + i + 1 });
+        i++;
+      } else {
+        out.push({ op: "add", text: y[start + j], b: start + j + 1 });
+        j++;
+      }
+    }
+  }
+
+  const shift = y.length - x.length;
+  for (let i = endX; i < x.length; i++) out.push({ op: "same", text: x[i], a: i + 1, b: i + shift + 1 });
+  return out;
+}
@@ -0,0 +1,241 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import type { HookJSONOutput } from "@anthropic-ai/claude-agent-sdk";
+import type { AgentProfile } from "./profiles";
+import type { SandboxPolicy } from "./sandbox";
+
+// The server's data/ for this test: a temporary one, set before docs.ts reads
+// DATA_DIR, so the secret below is never planted in the real one.
+const server = await mkdtemp(join(tmpdir(), "sandbox-server-"));
+const savedDataDir = process.env.DATA_DIR;
+process.env.DATA_DIR = join(server, "data");
+const { toolGuards } = await import("./claude");
+const { ACCESS_FILE, DATA_DIR } = await import("./docs");
+const { DEFAULT_DENY, canIsolate, commandNames } = await import("./sandbox");
+
+// A fake agent: scripted tool calls go through claude.ts's own PreToolUse
+// hook and canUseTool, called the way the Agent SDK calls them, and the
+// allowed ones run as the SDK would run them.
+
+let root: string;
+let policy: SandboxPolicy;
+
+// planted in data/, which the sandbox must keep every tool away from
+const SECRET_FILE = join(DATA_DIR, "sandbox-test-secret.json");
+const SECRET = "hunter2-in-data";
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "sandbox-"));
+  await mkdir(join(root, "docs"));
+  await writeFile(join(root, "docs", "a.md"), "# A\n");
+  await symlink("/etc", join(root, "docs", "etc"));
+  policy = { roots: [join(root, "docs")], denyCommands: DEFAULT_DENY, network: false };
+  await mkdir(DATA_DIR);
+  await mkdir(join(server, "docs"));
+  await writeFile(SECRET_FILE, SECRET);
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+  await rm(server, { recursive: true, force: true });
+  if (savedDataDir === undefined) delete process.env.DATA_DIR;
+  else process.env.DATA_DIR = savedDataDir;
+});
+
+interface Result {
+  output: string;
+  isError: boolean;
+}
+
+function profileFor(p: SandboxPolicy): AgentProfile {
+  return {
+    name: "test",
+    label: "Test",
+    description: "",
+    model: "",
+    systemPrompt: "",
+    tools: ["Read", "Edit", "Glob", "Grep", "Bash"],
+    allowedTools: ["Read", "Glob", "Grep"],
+    maxBudgetUsd: 1,
+    cwd: p.roots[0],
+    mcpServers: {},
+    sandbox: p,
+  };
+}
+
+async function runTool(name: string, input: Record<string, unknown>, p = policy): Promise<Result> {
+  const profile = profileFor(p);
+  const cwd = profile.cwd;
+  // the user allows everything that asks: only the sandbox says no
+  const { sandboxHook, canUseTool } = toolGuards({ profile, permissions: { allow: [], approve: async () => "allow" } }, () => {});
+  const signal = new AbortController().signal;
+
+  const hook = (await sandboxHook(
+    { hook_event_name: "PreToolUse", tool_name: name, tool_input: input, tool_use_id: "t1", session_id: "s", transcript_path: "", cwd },
+    "t1",
+    { signal },
+  )) as HookJSONOutput & { hookSpecificOutput?: { permissionDecision?: string; permissionDecisionReason?: string } };
+  const decision = hook.hookSpecificOutput?.permissionDecision;
+  if (decision === "deny") return { output: hook.hookSpecificOutput!.permissionDecisionReason!, isError: true };
+
+  // allowed tools skip canUseTool unless the hook asks for it
+  let run = input;
+  if (decision === "ask" || !profile.allowedTools.includes(name)) {
+    const result = await canUseTool(name, input, { signal, toolUseID: "t1", suggestions: [] });
+    if (result.behavior === "deny") return { output: result.message, isError: true };
+    run = result.updatedInput ?? input;
+  }
+
+  switch (name) {
+    case "Read":
+      return { output: await readFile(resolve(cwd, String(run.file_path)), "utf-8"), isError: false };
+    case "Bash": {
+      const proc = Bun.spawn(["bash", "-c", String(run.command)], {
+        cwd,
+        env: { ...process.env, SECRET_TOKEN: "hunter2" },
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      const output = (await new Response(proc.stdout).text()) + (await new Response(proc.stderr).text());
+      return { output, isError: (await proc.exited) !== 0 };
+    }
+    default:
+      return { output: "", isError: false };
+  }
+}
+
+describe("file tools", () => {
+  test("paths inside the root run", async () => {
+    expect(await runTool("Read", { file_path: "a.md" })).toEqual({ output: "# A\n", isError: false });
+    expect((await runTool("Edit", { file_path: join(root, "docs", "new", "b.md") })).isError).toBe(false);
+    expect((await runTool("Glob", { pattern: "**/*.md" })).isError).toBe(false);
+    expect((await runTool("Grep", { pattern: "A", path: "." })).isError).toBe(false);
+  });
+
+  test("paths outside the root are refused", async () => {
+    for (const [name, input] of [
+      ["Read", { file_path: "/etc/passwd" }],
+      ["Read", { file_path: "../../etc/passwd" }],
+      ["Read", { file_path: "etc/passwd" }], // through a symlink
+      ["Edit", { file_path: join(root, "outside.md") }],
+      ["Glob", { pattern: "*", path: "/etc" }],
+      ["Glob", { pattern: "../../**/*.md" }],
+      ["Grep", { pattern: "root", path: "/etc" }],
+    ] as const) {
+      const result = await runTool(name, input);
+      expect(result.isError).toBe(true);
+      expect(result.output).toContain("outside the sandbox");
+    }
+  });
+
+  test("data/ and docs/.access.json are refused even inside a root", async () => {
+    const whole = { ...policy, roots: [server] };
+    expect((await runTool("Read", { file_path: SECRET_FILE }, whole)).output).toContain("outside the sandbox");
+    expect((await runTool("Read", { file_path: ACCESS_FILE }, { ...policy, roots: [dirname(ACCESS_FILE)] })).output).toContain("outside the sandbox");
+    expect((await runTool("Bash", { command: `cat data/${SECRET_FILE.split("/").pop()}` }, whole)).output).toContain("outside the sandbox");
+  });
+
+  test("Grep can't search a folder holding data/", async () => {
+    const whole = { ...policy, roots: [server] };
+    expect((await runTool("Grep", { pattern: "hunter2" }, whole)).output).toContain("search a folder inside it");
+    expect((await runTool("Grep", { pattern: "hunter2", path: "/" }, { ...policy, roots: ["/"] })).output).toContain("search a folder inside it");
+    expect((await runTool("Grep", { pattern: "A", path: "docs" }, whole)).isError).toBe(false);
+  });
+});
+
+describe("commands that run without asking", () => {
+  // whether canUseTool stops to ask the user before running `command`
+  async function asks(command: string): Promise<boolean> {
+    let asked = false;
+    const approve = async () => {
+      asked = true;
+      return "deny" as const;
+    };
+    const { canUseTool } = toolGuards({ profile: profileFor(policy), permissions: { allow: [], approve } }, () => {});
+    await canUseTool("Bash", { command }, { signal: new AbortController().signal, toolUseID: "t1", suggestions: [] });
+    return asked;
+  }
+
+  test("plain read-only commands don't ask", async () => {
+    for (const command of ["ls", "ls -la", "cat a.md", "tail -n 5 a.md", "git log --oneline -3", "git diff HEAD"]) {
+      expect(await asks(command)).toBe(false);
+    }
+  });
+
+  test("options that write a file or never return ask", async () => {
+    for (const command of ["git diff --output=a.md", "git log --output a.md", "git show -oa.md", "tail -f a.md", "tail -nf 5 a.md", "tail --follow=name a.md", "tail -F a.md"]) {
+      expect(await asks(command)).toBe(true);
+    }
+  });
+
+  test("reading a FIFO, a glob or a quoted name asks", async () => {
+    const fifo = join(root, "docs", "pipe");
+    Bun.spawnSync(["mkfifo", fifo]);
+    for (const command of ["cat pipe", "head pipe", "wc /dev/zero", "cat *", "cat 'a.md'"]) {
+      expect(await asks(command)).toBe(true);
+    }
+    await rm(fifo);
+  });
+});
+
+describe("Bash", () => {
+  test("finds every program a line starts", () => {
+    expect(commandNames("FOO=1 /usr/bin/curl x | sort && echo $(whoami); `id`")).toEqual(["curl", "sort", "echo", "whoami", "id"]);
+  });
+
+  test("denied commands are refused", async () => {
+    for (const command of ["curl https://example.com", "ls && wget x", "echo $(printenv)", "/usr/bin/env", "X=1 sudo ls"]) {
+      const result = await runTool("Bash", { command });
+      expect(result.isError).toBe(true);
+      expect(result.output).toContain("doesn't allow running");
+    }
+  });
+
+  test("an allowlist refuses everything else", async () => {
+    const strict = { ...policy, allowCommands: ["ls", "cat"] };
+    expect((await runTool("Bash", { command: "ls | python3" }, strict)).output).toContain("only allows");
+  });
+
+  test("paths outside the root are refused", async () => {
+    expect((await runTool("Bash", { command: "cat /etc/passwd" })).output).toContain("outside the sandbox");
+    expect((await runTool("Bash", { command: "ls ../.." })).output).toContain("outside the sandbox");
+  });
+
+  // the rest run commands, which takes a sandbox to run them in
+
+  test.if(canIsolate)("allowed commands run", async () => {
+    expect((await runTool("Bash", { command: "ls" }, { ...policy, allowCommands: ["ls", "cat"] })).isError).toBe(false);
+    expect((await runTool("Bash", { command: "ls > /dev/null" })).isError).toBe(false);
+  });
+
+  test.if(canIsolate)("runs with a scrubbed environment", async () => {
+    const result = await runTool("Bash", { command: 'echo "[$SECRET_TOKEN]" "$HOME"' });
+    expect(result).toEqual({ output: `[] ${join(root, "docs")}\n`, isError: false });
+  });
+
+  test.if(canIsolate)("can't reach data/ by globs or variables", async () => {
+    const whole = { ...policy, roots: [server] };
+    const name = SECRET_FILE.split("/").pop()!;
+    for (const command of [
+      `cat d?ta/${name}`,
+      `cat da*/${name}`,
+      `x=dat; cat \${x}a/${name}`,
+      `cd ${server}/d""ata && cat *`,
+      `u=umount; $u ${DATA_DIR}; cat ${server}/da""ta/${name}`,
+    ]) {
+      expect((await runTool("Bash", { command }, whole)).output).not.toContain(SECRET);
+    }
+  });
+
+  test.if(canIsolate)("runs without network", async () => {
+    // a fresh network namespace has only a loopback
+    const result = await runTool("Bash", { command: `python3 -c "import socket; print([n for _, n in socket.if_nameindex()])"` });
+    expect(result.output.trim()).toBe("['lo']");
+  });
+
+  test.if(!canIsolate)("is refused when commands can't be sandboxed", async () => {
+    expect((await runTool("Bash", { command: "ls" })).output).toContain("Bash is unavailable");
+  });
+});
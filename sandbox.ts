@@ -0,0 +1,241 @@
+import { existsSync, statSync } from "node:fs";
+import { appendFile, mkdir, realpath } from "node:fs/promises";
+import { basename, dirname, isAbsolute, join, resolve, sep } from "node:path";
+import { ACCESS_FILE, DATA_DIR } from "./docs";
+
+// ---------------------------------------------------------------------------
+// Tool sandbox
+// ---------------------------------------------------------------------------
+//
+// Every tool call the agent makes is checked here before it runs, whatever
+// the system prompt says:
+//
+//   - file tools (Read, Edit, Write, Glob, Grep, NotebookEdit) may only touch
+//     paths whose real location, symlinks followed, is under one of the
+//     profile's roots, and never data/ (tokens, session key, logs) or
+//     docs/.access.json; Grep may not search a folder holding either;
+//   - Bash commands may not start a denied program (or, with an allowlist,
+//     anything not on it) nor name a path outside the roots;
+//   - Bash itself runs with a scrubbed environment, with data/ and
+//     docs/.access.json mounted over by empty ones, and unless the profile
+//     allows network, in its own network namespace with nothing but a
+//     loopback that's down.
+//
+// The command and path checks read what the agent typed, so they're a guard
+// against the obvious; the environment, the mounts and network isolation
+// hold whatever the command does. A call that fails a check never runs: the agent gets the
+// reason back as the tool's error, and the violation is logged.
+
+const SANDBOX_LOG = join(DATA_DIR, "sandbox.log");
+
+export interface SandboxPolicy {
+  roots: string[]; // absolute
+  allowCommands?: string[]; // if set, the only programs Bash may start
+  denyCommands: string[];
+  network: boolean; // let Bash reach the network
+}
+
+// Programs that talk to the network, print the environment, or change who's
+// running or what's installed on the machine.
+export const DEFAULT_DENY = [
+  "curl", "wget", "nc", "ncat", "netcat", "socat", "telnet", "ftp", "ssh", "scp", "sftp", "rsync",
+  "env", "printenv", "sudo", "su", "doas", "systemctl", "service", "crontab", "mount", "umount",
+  "shutdown", "reboot", "eval",
+];
+
+// Paths outside the roots that commands may still name.
+const SHARED_PATHS = ["/dev/null", "/dev/stdin", "/dev/stdout", "/dev/stderr", "/tmp/"];
+
+const SANDBOX_PATH = "/usr/local/bin:/usr/bin:/bin";
+
+// The server's own state is off limits even when a root contains it.
+const PRIVATE_PATHS = [DATA_DIR, ACCESS_FILE];
+const PRIVATE = "data/ and docs/.access.json hold the server's tokens and logs and are outside the sandbox.";
+
+// Hiding the private paths from Bash, and cutting off its network, need
+// unprivileged user and mount namespaces. Without them, Bash is refused.
+export const canIsolate = (() => {
+  try {
+    return Bun.spawnSync(["unshare", "-rm", "unshare", "-rn", "true"]).exitCode === 0;
+  } catch {
+    return false; // no unshare
+  }
+})();
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+
+/** The real path of `p`, or for a file that doesn't exist yet, of its nearest existing parent. */
+async function realLocation(p: string): Promise<string> {
+  try {
+    return await realpath(p);
+  } catch {
+    const parent = dirname(p);
+    return parent === p ? p : join(await realLocation(parent), basename(p));
+  }
+}
+
+async function insideRoots(path: string, roots: string[]): Promise<boolean> {
+  const real = await realLocation(path);
+  for (const root of roots) {
+    const r = await realLocation(root);
+    if (real === r || real.startsWith(r.endsWith(sep) ? r : r + sep)) return true;
+  }
+  return false;
+}
+
+/** Whether searching the folder `dir` would reach a private path. */
+async function holdsPrivate(dir: string): Promise<boolean> {
+  for (const p of PRIVATE_PATHS) {
+    if (existsSync(p) && (await insideRoots(p, [dir]))) return true;
+  }
+  return false;
+}
+
+// The fixed directory part of a glob: "../../etc/**/*.conf" → "../../etc".
+function globBase(pattern: string): string {
+  const parts = pattern.split("/");
+  const i = parts.findIndex((part) => /[*?[\]{}]/.test(part));
+  return (i === -1 ? parts : parts.slice(0, i)).join("/") || ".";
+}
+
+/** Which paths a file tool's input names, resolved against the agent's cwd. */
+function toolPaths(name: string, input: Record<string, unknown>, cwd: string): string[] {
+  const at = (key: string) => (typeof input[key] === "string" && input[key] !== "" ? [resolve(cwd, input[key] as string)] : []);
+  switch (name) {
+    case "Read":
+    case "Edit":
+    case "MultiEdit":
+    case "Write":
+      return at("file_path");
+    case "NotebookEdit":
+      return at("notebook_path");
+    case "Glob": {
+      const base = at("path")[0] ?? cwd;
+      const pattern = typeof input.pattern === "string" ? input.pattern : "";
+      return [base, resolve(base, globBase(pattern))];
+    }
+    case "Grep":
+      return [at("path")[0] ?? cwd];
+    default:
+      return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+/** The program each simple command in a shell line starts: "FOO=1 /usr/bin/curl x | sort" → ["curl", "sort"]. */
+export function commandNames(command: string): string[] {
+  return command
+    .split(/\|\||&&|\$\(|[;|&\n`()]/)
+    .map((part) => {
+      const words = part.trim().split(/\s+/).filter(Boolean);
+      while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) words.shift();
+      return words[0] ? basename(words[0].replace(/^["'\\]+|["']+$/g, "")) : "";
+    })
+    .filter(Boolean);
+}
+
+/** Every word of a shell line, stripped of quotes and redirects. */
+function commandWords(command: string): string[] {
+  return command
+    .split(/[\s;|&()`]+/)
+    .map((word) => word.replace(/^\d*[<>]+&?|^["']+|["']+$|^--?[\w-]+=/g, ""))
+    .filter(Boolean);
+}
+
+// Words that look like paths: absolute, home-relative, or climbing out with "..".
+const looksLikePath = (word: string) => word.startsWith("/") || word.startsWith("~") || /(^|\/)\.\.(\/|$)/.test(word);
+
+const wordPath = (word: string, cwd: string) => (word.startsWith("~") ? join(cwd, word.slice(1)) : resolve(cwd, word));
+
+function quote(s: string): string {
+  return `'${s.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The command Bash actually runs: in a clean environment, with the private
+ * paths mounted over and, unless allowed, without network. The mounts are
+ * made in one user namespace and the command runs in a second, nested one,
+ * where they're locked: it can't unmount them to see what's beneath.
+ */
+export function sandboxCommand(policy: SandboxPolicy, command: string, cwd: string): string {
+  const env = ["env", "-i", `PATH=${SANDBOX_PATH}`, `HOME=${cwd}`, "LANG=C.UTF-8", "TERM=dumb"];
+  const hide = PRIVATE_PATHS.filter((p) => existsSync(p)).map((p) =>
+    statSync(p).isDirectory() ? `mount -t tmpfs -o size=4k,mode=0555 none ${quote(p)}` : `mount --bind /dev/null ${quote(p)}`,
+  );
+  const run = `exec unshare ${policy.network ? "-r" : "-rn"} bash -c "$0"`;
+  return [...env, "unshare", "-rm", "sh", "-c", [...hide, run].join(" && "), command].map(quote).join(" ");
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/** Why the call may not run, or null if it may. */
+export async function checkToolCall(
+  policy: SandboxPolicy,
+  name: string,
+  input: Record<string, unknown>,
+  cwd: string,
+): Promise<string | null> {
+  if (name === "Bash") {
+    const command = typeof input.command === "string" ? input.command : "";
+    for (const program of commandNames(command)) {
+      if (policy.denyCommands.includes(program)) return `The sandbox doesn't allow running ${program}.`;
+      if (policy.allowCommands && !policy.allowCommands.includes(program)) {
+        return `The sandbox only allows these commands: ${policy.allowCommands.join(", ")}.`;
+      }
+    }
+    for (const word of commandWords(command)) {
+      const path = wordPath(word, cwd);
+      if (await insideRoots(path, PRIVATE_PATHS)) return PRIVATE;
+      if (!looksLikePath(word) || SHARED_PATHS.some((p) => path === p || (p.endsWith("/") && path.startsWith(p)))) continue;
+      if (!(await insideRoots(path, policy.roots))) return `${path} is outside the sandbox (${policy.roots.join(", ")}).`;
+    }
+    // checked last: a command the policy refuses says why on any host
+    if (!canIsolate) {
+      return "Bash is unavailable: this server can't sandbox commands (it needs unshare and user namespaces).";
+    }
+    return null;
+  }
+
+  for (const path of toolPaths(name, input, cwd)) {
+    if (await insideRoots(path, PRIVATE_PATHS)) return PRIVATE;
+    if (!isAbsolute(path) || !(await insideRoots(path, policy.roots))) {
+      return `${path} is outside the sandbox (${policy.roots.join(", ")}).`;
+    }
+    // ripgrep only skips git-ignored files inside a git checkout
+    if (name === "Grep" && (await holdsPrivate(path))) {
+      return `${path} holds data/ or docs/.access.json, which are outside the sandbox: search a folder inside it instead.`;
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Violation log
+// ---------------------------------------------------------------------------
+
+export interface Violation {
+  time: string;
+  user: string;
+  conversation: string;
+  tool: string;
+  input: unknown;
+  reason: string;
+}
+
+/** Append one JSON line to data/sandbox.log. Logging never interrupts the chat. */
+export async function logViolation(entry: Omit<Violation, "time">): Promise<void> {
+  console.warn(`sandbox: ${entry.user} ${entry.tool}: ${entry.reason}`);
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    await appendFile(SANDBOX_LOG, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n");
+  } catch (err) {
+    console.error("sandbox log:", err);
+  }
+}
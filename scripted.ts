@@ -0,0 +1,108 @@
+import { readFileSync } from "node:fs"
+import { permissionRule, type ChatOptions, type ChatProvider } from "./provider"
+import type { ChatEvent, PermissionDecision, TranscriptEntry } from "./protocol"
+
+// ---------------------------------------------------------------------------
+// Scripted chat
+// ---------------------------------------------------------------------------
+//
+// The "scripted" chat provider: replays recorded turns instead of running an
+// agent. A script is JSON lines in the transcript format, so a saved
+// conversation (data/chats/<id>.jsonl) works as one. Each prompt line starts a
+// turn, and the events up to the next prompt are what it streams back:
+//
+//   {"type":"prompt","text":"hello"}
+//   {"type":"text-delta","delta":"Hi "}
+//   {"type":"text-delta","delta":"there."}
+//   {"type":"done","cost":0.001,"turns":1,"session_id":"s1"}
+//
+// A prompt gets the turn recorded for exactly its text, or else the turn for
+// "*"; with neither, the turn fails. Two more lines script what a recording
+// can't:
+//
+//   {"type":"wait","ms":200}               pause, e.g. to leave time for Stop
+//   {"type":"throw","message":"boom"}      fail the turn as a crashing agent would
+//
+// Replaying is live where it matters: a permission-request asks the browser
+// (or is skipped if an "always" rule covers it), and a denied call's tool
+// result becomes the denial. Stop ends the turn with "cancelled" before the
+// next event. Doc edits aren't replayed; the server finds them itself.
+
+type ScriptLine = TranscriptEntry | { type: "wait"; ms: number } | { type: "throw"; message: string }
+
+/** A provider replaying the turns in `file`. The script is read once, now. */
+export function scriptedChat(file: string): ChatProvider {
+  const turns = new Map<string, ScriptLine[]>()
+  let turn: ScriptLine[] | null = null
+  for (const [i, line] of readFileSync(file, "utf-8").split("\n").entries()) {
+    if (!line.trim()) continue
+    let entry: ScriptLine
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      throw new Error(`${file}:${i + 1}: not JSON`)
+    }
+    if (entry.type === "prompt") turns.set(entry.text, (turn = []))
+    else if (!turn) throw new Error(`${file}:${i + 1}: events before the first prompt`)
+    else turn.push(entry)
+  }
+
+  return async function* chat(prompt: string, opts: ChatOptions): AsyncGenerator<ChatEvent> {
+    const script = turns.get(prompt) ?? turns.get("*")
+    if (!script) throw new Error(`No scripted reply for "${prompt}"`)
+    const permissions = opts.permissions ?? { allow: [] }
+    const stop = opts.signal ?? new AbortController().signal
+    const denied = new Set<string>() // tool-use ids
+
+    for (const entry of script) {
+      if (stop.aborted) {
+        yield { type: "cancelled" }
+        return
+      }
+      switch (entry.type) {
+        case "wait":
+          await sleep(entry.ms, stop)
+          break
+        case "throw":
+          throw new Error(entry.message)
+        case "prompt":
+        case "doc-edited":
+        case "permission-resolved": // answered live instead
+          break
+        case "permission-request": {
+          const input = (entry.input ?? {}) as Record<string, unknown>
+          const rule = permissionRule(entry.name, input)
+          if (permissions.allow.includes(rule)) break
+          let decision: PermissionDecision = "deny"
+          if (permissions.approve) {
+            // waiting before the browser can answer, as the SDK's callback does
+            const answer = permissions.approve({ id: entry.id, name: entry.name, input, rule }, stop)
+            yield { ...entry, rule }
+            decision = await answer
+            yield { type: "permission-resolved", id: entry.id, decision }
+          }
+          if (decision === "deny") denied.add(entry.id)
+          if (decision === "always" && !permissions.allow.includes(rule)) permissions.allow.push(rule)
+          break
+        }
+        case "tool-result":
+          yield denied.has(entry.id) ? { ...entry, output: "The user denied this tool call.", isError: true } : entry
+          break
+        default:
+          yield entry
+      }
+    }
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    signal.addEventListener("abort", done, { once: true })
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener("abort", done)
+      resolve()
+    }
+  })
+}
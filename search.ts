@@ -0,0 +1,334 @@
+import { readFile } from "node:fs/promises";
+import { Lexer, type Token } from "marked";
+import { listDocs, resolveInDocs, type DocEntry } from "./docs";
+import { parseFrontMatter } from "./frontmatter";
+import { escapeHtml } from "./html";
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+//
+// An in-memory positional inverted index over the plain text of every doc.
+// It is refreshed lazily on each search: listDocs() is a cheap stat walk, and
+// only files whose mtime changed are re-read and re-tokenized.
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface IndexedDoc {
+  entry: DocEntry;
+  text: string;
+  spans: Span[]; // token offsets into `text`, by position
+  length: number;
+  titleTerms: Set<string>;
+}
+
+const indexed = new Map<string, IndexedDoc>(); // slug → doc
+const postings = new Map<string, Map<string, number[]>>(); // term → slug → positions
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text: string): { term: string; span: Span }[] {
+  const out: { term: string; span: Span }[] = [];
+  for (const m of text.matchAll(WORD)) {
+    out.push({ term: m[0].toLowerCase(), span: { start: m.index!, end: m.index! + m[0].length } });
+  }
+  return out;
+}
+
+/** Flatten markdown into searchable text: no markup, URLs or HTML tags. */
+function plainText(md: string): string {
+  const parts: string[] = [];
+  const visit = (tokens: Token[]) => {
+    for (const t of tokens) {
+      if (t.type === "list") {
+        visit(t.items);
+      } else if (t.type === "table") {
+        for (const cell of t.header) visit(cell.tokens);
+        for (const row of t.rows) for (const cell of row) visit(cell.tokens);
+      } else if ("tokens" in t && t.tokens && t.tokens.length > 0) {
+        visit(t.tokens);
+      } else if (t.type === "html") {
+        parts.push(t.text.replace(/<[^>]*>/g, " "));
+      } else if (t.type !== "space" && "text" in t) {
+        parts.push(t.text);
+      }
+      if (t.type === "space" || t.type === "paragraph" || t.type === "heading" || t.type === "code") {
+        parts.push("\n");
+      }
+    }
+  };
+  visit(new Lexer({ gfm: true, breaks: true }).lex(md));
+  return parts.join(" ").replace(/[ \t]+/g, " ").replace(/ ?\n[\s]*/g, "\n").trim();
+}
+
+function removeDoc(slug: string): void {
+  const doc = indexed.get(slug);
+  if (!doc) return;
+  for (const { term } of tokenize(doc.text)) {
+    const list = postings.get(term);
+    list?.delete(slug);
+    if (list?.size === 0) postings.delete(term);
+  }
+  indexed.delete(slug);
+}
+
+function addDoc(entry: DocEntry, md: string): void {
+  const { meta, body } = parseFrontMatter(md);
+  const text = [meta.summary, plainText(body)].filter(Boolean).join("\n");
+  const tokens = tokenize(text);
+  tokens.forEach(({ term }, pos) => {
+    let list = postings.get(term);
+    if (!list) postings.set(term, (list = new Map()));
+    let positions = list.get(entry.slug);
+    if (!positions) list.set(entry.slug, (positions = []));
+    positions.push(pos);
+  });
+  const titled = [entry.slug.replace(/[/_-]/g, " "), entry.name, ...meta.tags].join(" ");
+  const titleTerms = new Set(tokenize(titled).map((t) => t.term));
+  indexed.set(entry.slug, { entry, text, spans: tokens.map((t) => t.span), length: tokens.length, titleTerms });
+}
+
+/** Bring the index in line with docs/: add new files, re-read changed ones, drop deleted ones. */
+export async function refreshIndex(): Promise<void> {
+  const docs = await listDocs();
+  const live = new Set(docs.map((d) => d.slug));
+  for (const slug of [...indexed.keys()]) {
+    if (!live.has(slug)) removeDoc(slug);
+  }
+  for (const entry of docs) {
+    const current = indexed.get(entry.slug);
+    if (current && current.entry.mtime.getTime() === entry.mtime.getTime()) {
+      current.entry = entry;
+      continue;
+    }
+    try {
+      const md = await readFile(await resolveInDocs(`${entry.slug}.md`), "utf-8");
+      removeDoc(entry.slug);
+      addDoc(entry, md);
+    } catch {
+      removeDoc(entry.slug);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * A query is a list of clauses that must all match:
+ *   word     — exact term
+ *   word*    — any term starting with "word"
+ *   "a b c"  — the terms in order, adjacent
+ */
+type Clause =
+  | { kind: "term"; term: string }
+  | { kind: "prefix"; prefix: string }
+  | { kind: "phrase"; terms: string[] };
+
+export function parseQuery(q: string): Clause[] {
+  const clauses: Clause[] = [];
+  for (const m of q.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    if (m[1] !== undefined) {
+      const terms = tokenize(m[1]).map((t) => t.term);
+      if (terms.length === 1) clauses.push({ kind: "term", term: terms[0] });
+      else if (terms.length > 1) clauses.push({ kind: "phrase", terms });
+      continue;
+    }
+    const isPrefix = m[2].endsWith("*");
+    const terms = tokenize(m[2]).map((t) => t.term);
+    // "foo-bar" tokenizes into two words — treat it like the phrase it reads as
+    if (terms.length > 1) clauses.push({ kind: "phrase", terms });
+    else if (terms.length === 1 && isPrefix) clauses.push({ kind: "prefix", prefix: terms[0] });
+    else if (terms.length === 1) clauses.push({ kind: "term", term: terms[0] });
+  }
+  return clauses;
+}
+
+const MAX_PREFIX_EXPANSION = 50;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TITLE_BOOST = 2;
+const PHRASE_BOOST = 1.5;
+
+/** slug → matched token positions, restricted to docs the caller may see. */
+type Matches = Map<string, number[]>;
+
+function matchTerm(term: string, allowed: Set<string>): Matches {
+  const out: Matches = new Map();
+  for (const [slug, positions] of postings.get(term) ?? []) {
+    if (allowed.has(slug)) out.set(slug, positions);
+  }
+  return out;
+}
+
+function expandPrefix(prefix: string): string[] {
+  const terms: string[] = [];
+  for (const term of postings.keys()) {
+    if (term.startsWith(prefix)) terms.push(term);
+  }
+  // prefer the shortest completions — "sim*" should favor "sim" and "simple"
+  return terms.sort((a, b) => a.length - b.length).slice(0, MAX_PREFIX_EXPANSION);
+}
+
+function matchPhrase(terms: string[], allowed: Set<string>): Matches {
+  const out: Matches = new Map();
+  const first = matchTerm(terms[0], allowed);
+  for (const [slug, starts] of first) {
+    const rest = terms.slice(1).map((t) => new Set(postings.get(t)?.get(slug) ?? []));
+    const hits: number[] = [];
+    for (const start of starts) {
+      if (rest.every((set, i) => set.has(start + i + 1))) {
+        for (let i = 0; i < terms.length; i++) hits.push(start + i);
+      }
+    }
+    if (hits.length > 0) out.set(slug, hits);
+  }
+  return out;
+}
+
+export interface SearchResult {
+  slug: string;
+  name: string;
+  mtime: Date;
+  score: number;
+  snippet: string; // HTML-escaped, matches wrapped in <mark>
+}
+
+export interface SearchOptions {
+  canAccess: (slug: string) => boolean;
+  limit?: number;
+}
+
+/**
+ * Rank every visible document against the query with BM25, with extra weight
+ * for title, filename and tag matches. Corpus statistics are computed over the
+ * visible docs only, so scores can't leak anything about documents the caller
+ * isn't allowed to see.
+ */
+export async function search(q: string, opts: SearchOptions): Promise<SearchResult[]> {
+  const clauses = parseQuery(q);
+  if (clauses.length === 0) return [];
+  await refreshIndex();
+
+  // drafts are reachable by URL but never listed, and search is a listing
+  const allowed = new Set(
+    [...indexed.values()].filter((d) => !d.entry.meta.draft && opts.canAccess(d.entry.slug)).map((d) => d.entry.slug)
+  );
+  if (allowed.size === 0) return [];
+  let visibleLength = 0;
+  for (const slug of allowed) visibleLength += indexed.get(slug)!.length;
+  const avgLength = visibleLength / allowed.size || 1;
+
+  const bm25 = (tf: number, df: number, length: number) => {
+    const idf = Math.log(1 + (allowed.size - df + 0.5) / (df + 0.5));
+    return (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / avgLength));
+  };
+
+  // Every clause narrows the candidate set; scores and hit positions accumulate.
+  let candidates: Set<string> | null = null;
+  const scores = new Map<string, number>();
+  const hits = new Map<string, number[]>();
+
+  for (const clause of clauses) {
+    const clauseScores = new Map<string, number>();
+    const clauseHits: Matches = new Map();
+    const terms =
+      clause.kind === "term" ? [clause.term] : clause.kind === "prefix" ? expandPrefix(clause.prefix) : clause.terms;
+
+    if (clause.kind === "phrase") {
+      for (const [slug, positions] of matchPhrase(clause.terms, allowed)) {
+        const doc = indexed.get(slug)!;
+        let score = 0;
+        for (const term of clause.terms) {
+          score += bm25(positions.length / clause.terms.length, matchTerm(term, allowed).size, doc.length);
+        }
+        clauseScores.set(slug, score * PHRASE_BOOST);
+        clauseHits.set(slug, positions);
+      }
+    } else {
+      for (const term of terms) {
+        const matches = matchTerm(term, allowed);
+        for (const [slug, positions] of matches) {
+          const doc = indexed.get(slug)!;
+          let score = bm25(positions.length, matches.size, doc.length);
+          if (doc.titleTerms.has(term)) score *= TITLE_BOOST;
+          clauseScores.set(slug, (clauseScores.get(slug) ?? 0) + score);
+          clauseHits.set(slug, [...(clauseHits.get(slug) ?? []), ...positions]);
+        }
+      }
+    }
+
+    const matched = new Set(clauseScores.keys());
+    if (candidates === null) candidates = matched;
+    else for (const slug of candidates) if (!matched.has(slug)) candidates.delete(slug);
+    for (const [slug, score] of clauseScores) scores.set(slug, (scores.get(slug) ?? 0) + score);
+    for (const [slug, positions] of clauseHits) hits.set(slug, [...(hits.get(slug) ?? []), ...positions]);
+  }
+
+  const results: SearchResult[] = [...(candidates ?? [])].map((slug) => {
+    const doc = indexed.get(slug)!;
+    return {
+      slug,
+      name: doc.entry.name,
+      mtime: doc.entry.mtime,
+      score: scores.get(slug)!,
+      snippet: snippet(doc, hits.get(slug)!),
+    };
+  });
+  results.sort((a, b) => b.score - a.score || b.mtime.getTime() - a.mtime.getTime());
+  return results.slice(0, opts.limit ?? 50);
+}
+
+// ---------------------------------------------------------------------------
+// Snippets
+// ---------------------------------------------------------------------------
+
+const SNIPPET_CHARS = 200;
+
+/**
+ * Pick the window of text with the most matches and highlight them. The
+ * window is snapped to word boundaries and marked with ellipses when cut.
+ */
+function snippet(doc: IndexedDoc, positions: number[]): string {
+  const sorted = [...new Set(positions)].sort((a, b) => a - b);
+  const spans = sorted.map((p) => doc.spans[p]);
+
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0, j = 0; i < spans.length; i++) {
+    while (j < spans.length && spans[j].end - spans[i].start <= SNIPPET_CHARS) j++;
+    if (j - i > bestCount) {
+      best = i;
+      bestCount = j - i;
+    }
+  }
+
+  const anchor = spans[best] ?? { start: 0, end: 0 };
+  let start = Math.max(0, anchor.start - 40);
+  let end = Math.min(doc.text.length, start + SNIPPET_CHARS);
+  if (start > 0) {
+    const ws = doc.text.slice(start, anchor.start).search(/\s/);
+    if (ws !== -1) start += ws + 1;
+  }
+  if (end < doc.text.length) {
+    const tail = doc.text.slice(anchor.end, end);
+    const ws = Math.max(tail.lastIndexOf(" "), tail.lastIndexOf("\n"));
+    if (ws !== -1) end = anchor.end + ws;
+  }
+
+  let out = start > 0 ? "… " : "";
+  let cursor = start;
+  for (const span of spans) {
+    if (span.start < cursor || span.end > end) continue;
+    out += escapeHtml(doc.text.slice(cursor, span.start));
+    out += `<mark>${escapeHtml(doc.text.slice(span.start, span.end))}</mark>`;
+    cursor = span.end;
+  }
+  out += escapeHtml(doc.text.slice(cursor, end));
+  if (end < doc.text.length) out += " …";
+  return out.replace(/\s+/g, " ");
+}
@@ -1,14 +1,92 @@
-import { readdir, readFile, stat, realpath } from "node:fs/promises";
-import { join } from "node:path";
-import { timingSafeEqual } from "node:crypto";
-import { Marked } from "marked";
-import { chat } from "./claude";
+import { readFile, stat } from "node:fs/promises";
+import { join, posix, relative, resolve } from "node:path";
+import { createHash, timingSafeEqual } from "node:crypto";
+import { Marked, type Token } from "marked";
+import {
+  anyoneCanChat,
+  canAccess,
+  canEdit,
+  clearSessionCookie,
+  getToken,
+  hasPermission,
+  hasRules,
+  isRestricted,
+  listTokens,
+  loadAccess,
+  logAccess,
+  mintToken,
+  readAccessLog,
+  resolveToken,
+  revokeToken,
+  sessionCookie,
+  setBudget,
+  setRestricted,
+  type AccessRules,
+  type Budget,
+  type Permission,
+} from "./access";
+import { ASSET_EXT, assetAccess, assetExt, assetPath, assetReferences } from "./assets";
+import { createLru } from "./cache";
+import {
+  DEFAULT_OWNER,
+  addAllowRule,
+  appendEntry,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  readTranscript,
+  updateConversation,
+  type Conversation,
+} from "./history";
+import { escapeHtml } from "./html";
+import { backlinks, linkGraph, resolveWikiLinks, wikiLinkExtension, type DocIndex, type LinkGraph } from "./links";
+import { headingExtension, headingIds, renderToc, type TocEntry } from "./toc";
+import { HIGHLIGHT_CSS, renderReply } from "./markdown";
+import {
+  HEARTBEAT_MS,
+  PROTOCOL_VERSION,
+  RESUME_WINDOW_MS,
+  parseClientMessage,
+  type ChatEvent,
+  type ClientMessage,
+  type DocEditedEvent,
+  type PermissionDecision,
+  type Sequenced,
+  type ServerEvent,
+  type TranscriptEntry,
+} from "./protocol";
+import { getProfile, loadProfiles } from "./profiles";
+import { loadChatProvider, type Permissions } from "./provider";
+import { diffLines, listRevisions, queueSave, readRevision, recordAll, recordRevision, type Author, type DiffLine, type Revision } from "./revisions";
+import { logViolation } from "./sandbox";
+import { search, type SearchResult } from "./search";
+import { recordUsage, spending, usageByUser } from "./usage";
+import { htmlToPdf } from "./pdf";
+import { subscribe } from "./watch";
+import {
+  DOCS_DIR,
+  buildTree,
+  isValidPath,
+  listDocs,
+  resolveInDocs,
+  slugDir,
+  slugHref,
+  slugForFile,
+  writeDoc,
+  docDate,
+  type DocEntry,
+  type DocFolder,
+} from "./docs";
+import { normalizeTag, parseFrontMatter, type DocMeta } from "./frontmatter";
+import { MATH_CSS, mathExtension } from "./math";
 import type { ServerWebSocket } from "bun";
 
-const DOCS_DIR = join(import.meta.dir, "docs");
-const PORT = 3000;
+const PORT = Number(process.env.PORT) || 3000;
 const WS_TOKEN = process.env.WS_TOKEN;
 const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+// what answers in the chat: the Agent SDK, or with CHAT_PROVIDER=scripted, recorded turns
+const chat = await loadChatProvider();
 
 function checkToken(input: string): boolean {
   if (!WS_TOKEN) return false;
@@ -18,16 +96,45 @@ function checkToken(input: string): boolean {
   return timingSafeEqual(a, b);
 }
 
-const marked = new Marked({
+
+const MARKED_OPTIONS = {
   breaks: true,
   gfm: true,
-});
+};
+
+const marked = new Marked(MARKED_OPTIONS, mathExtension(), wikiLinkExtension(), headingExtension());
+const markedNoMath = new Marked(MARKED_OPTIONS, wikiLinkExtension(), headingExtension()); // front matter `math: false`
+
+/**
+ * Rewrite relative image URLs so they resolve against the document's own
+ * folder rather than whatever URL the page happened to be served at.
+ */
+function resolveImages(dir: string) {
+  return (token: Token) => {
+    if (token.type !== "image") return;
+    if (/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(token.href)) return;
+    token.href = posix.join("/", dir, token.href);
+  };
+}
 
 // ---------------------------------------------------------------------------
 // HTML template
 // ---------------------------------------------------------------------------
 
-function layout(title: string, body: string): string {
+interface LayoutOptions {
+  /** Re-render in place when docs/ changes: a single document, or a listing. */
+  live?: "doc" | "index";
+  /** Load the Hypothesis sidebar (default true). Front matter `annotations: false` turns it off. */
+  annotations?: boolean;
+  /** Open the print dialog once the page has loaded. */
+  print?: boolean;
+  /** Use the whole window, for the editor's two panes. */
+  wide?: boolean;
+  /** The body has a table of contents, to open beside the article on wide screens. */
+  toc?: boolean;
+}
+
+function layout(title: string, body: string, opts: LayoutOptions = {}): string {
   return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -94,6 +201,18 @@ function layout(title: string, body: string): string {
     font-size: 0.85rem;
     white-space: nowrap;
   }
+  .file-list .summary { margin: 0.15rem 0 0; color: var(--fg-muted); font-size: 0.9rem; }
+
+  /* ---- Front matter ---- */
+  .doc-meta { margin-bottom: 1rem; color: var(--fg-muted); font-size: 0.9rem; }
+  .tag { font-size: 0.9em; }
+  .draft {
+    padding: 0.05rem 0.4rem;
+    border: 1px solid var(--border);
+    border-radius: 4px;
+    font-size: 0.8rem;
+    text-transform: uppercase;
+  }
 
   /* ---- Article ---- */
   .article h1, .article h2, .article h3,
@@ -104,6 +223,33 @@ function layout(title: string, body: string): string {
   }
   .article h1 { font-size: 1.75rem; }
   .article h2 { font-size: 1.4rem; border-bottom: 1px solid var(--border); padding-bottom: 0.3em; }
+  .article [id] { scroll-margin-top: 1rem; }
+  .article .anchor { margin-left: 0.4rem; opacity: 0; font-weight: normal; }
+  .article .anchor::before { content: "#"; }
+  .article :is(h1, h2, h3, h4, h5, h6):hover .anchor, .article .anchor:focus { opacity: 1; }
+
+  /* ---- Table of contents ---- */
+  /* Collapsed above the article on narrow screens; open and fixed in the left
+     margin once there's room for it (a script opens it). */
+  .toc { margin-bottom: 1rem; font-size: 0.9rem; border: 1px solid var(--border); border-radius: 6px; padding: 0.4rem 0.75rem; }
+  .toc summary { cursor: pointer; color: var(--fg-muted); }
+  .toc ul { list-style: none; margin: 0.4rem 0 0; padding: 0; }
+  .toc li { margin: 0.15rem 0; }
+  .toc .toc-2 { padding-left: 1rem; }
+  .toc .toc-3 { padding-left: 2rem; }
+  @media (min-width: 80rem) {
+    .toc {
+      position: fixed;
+      top: 2rem;
+      left: max(1rem, calc(50% - var(--max-w) / 2 - 15rem));
+      width: 13rem;
+      max-height: calc(100vh - 4rem);
+      overflow-y: auto;
+      margin: 0;
+      border: none;
+      padding: 0;
+    }
+  }
 
   .article img { max-width: 100%; height: auto; }
 
@@ -151,36 +297,226 @@ function layout(title: string, body: string): string {
 
   .back { display: inline-block; margin-bottom: 1rem; }
 
-  /* MathJax overflow */
+  .session { color: var(--fg-muted); font-size: 0.85rem; margin-top: -0.5rem; }
+
+  /* ---- Search ---- */
+  .search-form input {
+    width: 100%;
+    padding: 0.5rem 0.75rem;
+    border: 1px solid var(--border);
+    border-radius: 6px;
+    background: var(--bg);
+    color: var(--fg);
+    font: inherit;
+  }
+  .results { list-style: none; padding: 0; }
+  .results li { padding: 0.75rem 0; border-bottom: 1px solid var(--border); }
+  .results .meta, p.meta { color: var(--fg-muted); font-size: 0.85rem; }
+  .results .snippet { margin: 0.25rem 0 0; font-size: 0.9rem; color: var(--fg-muted); }
+  .results mark { background: #fff3b0; color: inherit; border-radius: 2px; }
+  @media (prefers-color-scheme: dark) {
+    .results mark { background: #5c4b00; }
+  }
+
+  /* ---- Folder tree & breadcrumbs ---- */
+  .file-list .folder { display: block; }
+  .file-list .folder summary { cursor: pointer; font-weight: 600; }
+  .file-list .folder summary .meta { float: right; font-weight: normal; }
+  .file-list .folder > details > .file-list {
+    margin: 0.4rem 0 0 0.4rem;
+    padding-left: 1rem;
+    border-left: 1px solid var(--border);
+  }
+  .file-list .folder > details > .file-list li:last-child { border-bottom: none; }
+  .breadcrumbs { margin-bottom: 1rem; color: var(--fg-muted); font-size: 0.9rem; }
+  .breadcrumbs .sep { margin: 0 0.25rem; }
+
+  /* ---- Token admin ---- */
+  .admin-form { display: grid; gap: 0.6rem; max-width: 28rem; }
+  .admin-form label { display: grid; gap: 0.2rem; font-size: 0.9rem; }
+  .admin-form input, .admin-form textarea, .admin-form select, .admin button {
+    font: inherit;
+    padding: 0.35rem 0.5rem;
+    border: 1px solid var(--border);
+    border-radius: 6px;
+    background: var(--bg);
+    color: var(--fg);
+  }
+  .admin button { cursor: pointer; justify-self: start; }
+  .admin td form { margin: 0; }
+  .admin tr.minted { outline: 2px solid var(--link); }
+  .admin .status-revoked, .admin .status-expired { color: var(--fg-muted); }
+  .admin td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .budget-form { display: flex; gap: 0.3rem; align-items: center; }
+  .budget-form input { width: 5.5rem; }
+
+  /* ---- Export ---- */
+  .doc-actions { float: right; font-size: 0.85rem; color: var(--fg-muted); }
+
+  /* ---- Links ---- */
+  .wikilink.broken { color: #cf222e; border-bottom: 1px dashed currentColor; cursor: help; }
+  .backlinks { margin-top: 2.5rem; padding-top: 0.5rem; border-top: 1px solid var(--border); font-size: 0.9rem; }
+  .backlinks h2 { font-size: 1rem; color: var(--fg-muted); margin: 0.5rem 0; }
+  .backlinks ul { margin: 0; padding-left: 1.25rem; }
+  .graph { display: block; width: 100%; height: auto; border: 1px solid var(--border); border-radius: 6px; touch-action: none; }
+  .graph .edge { stroke: var(--border); stroke-width: 1.5; }
+  .graph .node circle { fill: var(--link); stroke: var(--bg); stroke-width: 2; cursor: grab; }
+  .graph .node text { fill: var(--fg); font-size: 13px; pointer-events: none; }
+  .graph .node:hover text { text-decoration: underline; }
+  .graph-list { margin-top: 1rem; font-size: 0.9rem; }
+  @media (prefers-color-scheme: dark) {
+    .wikilink.broken { color: #ff7b72; }
+  }
+
+  /* ---- Revision history ---- */
+  .history button { margin-top: 0.75rem; }
+  .revision-note { color: var(--fg-muted); font-size: 0.9rem; border-bottom: 1px solid var(--border); margin-bottom: 1.5rem; }
+  .revision-note p { margin: 0.25rem 0; }
+  .restore { margin: 0.5rem 0 1rem; }
+  .diff { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  .diff td { padding: 0 0.5rem; vertical-align: top; }
+  .diff code { white-space: pre-wrap; word-break: break-word; background: none; padding: 0; }
+  .diff .ln { color: var(--fg-muted); text-align: right; user-select: none; width: 1%; }
+  .diff .add { background: #e6ffec; }
+  .diff .del { background: #ffebe9; }
+  .diff .fold td { color: var(--fg-muted); text-align: center; background: var(--block-bg); }
+  @media (prefers-color-scheme: dark) {
+    .diff .add { background: #12361f; }
+    .diff .del { background: #42181a; }
+  }
+
+  /* ---- Editor ---- */
+  .container.wide { max-width: none; }
+  .editor-bar { display: flex; gap: 0.75rem; align-items: center; margin-bottom: 0.75rem; font-size: 0.9rem; }
+  .editor-bar .meta { color: var(--fg-muted); flex: 1; }
+  .editor-bar button, .conflict button {
+    font: inherit;
+    padding: 0.3rem 0.9rem;
+    border: 1px solid var(--border);
+    border-radius: 6px;
+    background: var(--bg);
+    color: var(--fg);
+    cursor: pointer;
+  }
+  .conflict { padding: 0.6rem 0.8rem; margin-bottom: 0.75rem; border: 1px solid #d4a72c; border-radius: 6px; background: var(--block-bg); }
+  .editor { display: grid; grid-template-columns: 1fr 1fr; gap: 1.25rem; height: calc(100vh - 9rem); min-height: 20rem; }
+  .editor textarea {
+    width: 100%;
+    height: 100%;
+    resize: none;
+    padding: 0.75rem;
+    border: 1px solid var(--border);
+    border-radius: 6px;
+    background: var(--bg);
+    color: var(--fg);
+    font: 0.9rem/1.5 ui-monospace, SFMono-Regular, Menlo, monospace;
+    tab-size: 4;
+  }
+  .editor #preview { overflow-y: auto; padding-right: 0.5rem; }
+  @media (max-width: 50rem) {
+    .editor { grid-template-columns: 1fr; height: auto; }
+    .editor textarea { height: 60vh; }
+  }
+  p.error { color: #cf222e; }
+
+  /* ---- Print ---- */
+  @media print {
+    :root {
+      --bg: #fff;
+      --fg: #000;
+      --fg-muted: #444;
+      --link: #000;
+      --border: #bbb;
+      --code-bg: #f5f5f5;
+      --block-bg: #f8f9fa;
+    }
+    @page { margin: 2cm 1.8cm; }
+    body { font-size: 11pt; line-height: 1.5; }
+    .container { max-width: none; padding: 0; }
+    .breadcrumbs, .doc-actions, .search-form, .back, .backlinks, .toc, .article .anchor { display: none; }
+    .article a { text-decoration: underline; }
+    .article a[href^="http"]::after { content: " (" attr(href) ")"; font-size: 0.85em; color: var(--fg-muted); word-break: break-all; }
+    .article pre { white-space: pre-wrap; word-wrap: break-word; }
+    .article pre, .article blockquote, .article table, .article img, .math-display { break-inside: avoid; }
+    .article h1, .article h2, .article h3, .article h4 { break-after: avoid; }
+    .article table { display: table; }
+  }
+
+  /* Math, pre-rendered to SVG on the server */
   mjx-container { overflow-x: auto; overflow-y: hidden; }
+  .math-display { display: block; }
+  .math-error { color: #cf222e; }
+${MATH_CSS}
 </style>
 
-<!-- MathJax v3: $..$ inline, $$...$$ display -->
-<script>
-  window.MathJax = {
-    tex: {
-      inlineMath:  [['$', '$']],
-      displayMath: [['$$', '$$']],
-    },
-    options: {
-      skipHtmlTags: ['script', 'noscript', 'style', 'textarea', 'pre', 'code'],
-    },
-  };
-</script>
-<script id="MathJax-script" async
-  src="https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-chtml.js"></script>
-
-<!-- Hypothesis -->
-<script src="https://hypothes.is/embed.js" async></script>
+${opts.annotations === false ? "" : HYPOTHESIS}
 </head>
-<body>
-<div class="container">
+<body${opts.live ? ` data-live="${opts.live}"` : ""}>
+<div class="container${opts.wide ? " wide" : ""}">
 ${body}
 </div>
+${opts.toc ? TOC_SCRIPT : ""}
+${opts.live ? LIVE_SCRIPT : ""}
+${opts.print ? PRINT_SCRIPT : ""}
 </body>
 </html>`;
 }
 
+const HYPOTHESIS = `<!-- Hypothesis -->
+<script src="https://hypothes.is/embed.js" async></script>`;
+
+const PRINT_SCRIPT = `<script>window.addEventListener("load", () => window.print());</script>`;
+
+// The table of contents is collapsed in the flow of a narrow page, and open
+// beside the article once the window has room for it (see the CSS).
+const TOC_SCRIPT = `<script>
+(() => {
+  const wide = matchMedia("(min-width: 80rem)");
+  const fit = () => { const toc = document.querySelector("details.toc"); if (toc) toc.open = wide.matches; };
+  fit();
+  wide.addEventListener("change", fit);
+})();
+</script>`;
+
+// Subscribes to /events and swaps in a freshly fetched copy of the page when
+// it changes. Only the article and its table of contents (or the listing) are
+// replaced, so the scroll position and any open Hypothesis sidebar survive
+// the update.
+const LIVE_SCRIPT = `<script>
+(() => {
+  const kind = document.body.dataset.live;
+  if (!window.EventSource) return;
+  const slug = decodeURIComponent(location.pathname.slice(1));
+  const sels = kind === "doc" ? ["article.article", "details.toc"] : [".container"];
+  let inflight = null;
+
+  async function refresh() {
+    if (inflight) return inflight.then(refresh);
+    inflight = (async () => {
+      const res = await fetch(location.href, { cache: "no-store" });
+      if (!res.ok) return;
+      const page = new DOMParser().parseFromString(await res.text(), "text/html");
+      const x = window.scrollX, y = window.scrollY;
+      for (const sel of sels) {
+        const next = page.querySelector(sel);
+        const cur = document.querySelector(sel);
+        if (next && cur) cur.innerHTML = next.innerHTML;
+      }
+      window.scrollTo(x, y);
+    })().finally(() => { inflight = null; });
+    return inflight;
+  }
+
+  const es = new EventSource("/events");
+  es.addEventListener("doc-changed", (e) => {
+    if (kind === "doc" && JSON.parse(e.data).slug === slug) refresh();
+  });
+  es.addEventListener("index-changed", () => {
+    if (kind === "index") refresh();
+  });
+})();
+</script>`;
+
 function chatPage(): string {
   return `<!DOCTYPE html>
 <html lang="en">
@@ -204,7 +540,42 @@ function chatPage(): string {
   body {
     font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
     font-size: 1rem; line-height: 1.6; color: var(--fg); background: var(--bg);
-    display: flex; flex-direction: column;
+    display: flex;
+  }
+  #sidebar {
+    width: 16rem; flex-shrink: 0; border-right: 1px solid var(--border);
+    display: flex; flex-direction: column; overflow: hidden;
+  }
+  #sidebar.busy #conversations, #sidebar.busy #new-chat { opacity: 0.5; pointer-events: none; }
+  #new-chat {
+    margin: 0.75rem; padding: 0.4rem 0.75rem; border: 1px solid var(--border); border-radius: 6px;
+    background: var(--bg); color: var(--fg); font-size: 0.9rem; cursor: pointer; text-align: left;
+  }
+  #new-chat:hover { background: var(--bot-bg); }
+  #conversations { list-style: none; margin: 0; padding: 0 0.5rem 0.75rem; overflow-y: auto; flex: 1; }
+  .conv { display: flex; align-items: center; border-radius: 6px; }
+  .conv:hover, .conv.active { background: var(--bot-bg); }
+  .conv .open {
+    flex: 1; min-width: 0; padding: 0.35rem 0.5rem; border: none; background: none; color: var(--fg);
+    font-size: 0.875rem; text-align: left; cursor: pointer;
+  }
+  .conv .title { display: block; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .conv .when { display: block; font-size: 0.75rem; color: var(--fg-muted); }
+  .conv .action {
+    border: none; background: none; color: var(--fg-muted); cursor: pointer;
+    padding: 0.25rem 0.35rem; font-size: 0.85rem; visibility: hidden;
+  }
+  .conv:hover .action, .conv.active .action { visibility: visible; }
+  .conv .action:hover { color: var(--fg); }
+  #main { flex: 1; min-width: 0; display: flex; flex-direction: column; }
+  #toggle-sidebar { display: none; }
+  @media (max-width: 700px) {
+    #sidebar { display: none; position: fixed; inset: 0 auto 0 0; z-index: 1; background: var(--bg); }
+    body.show-sidebar #sidebar { display: flex; }
+    #toggle-sidebar {
+      display: block; position: fixed; top: 0.25rem; left: 0.5rem; z-index: 2;
+      border: 1px solid var(--border); border-radius: 6px; background: var(--bg); color: var(--fg); cursor: pointer;
+    }
   }
   #messages {
     flex: 1; overflow-y: auto; padding: 1rem;
@@ -217,8 +588,61 @@ function chatPage(): string {
   .msg pre { background: var(--code-bg); padding: 0.5rem; border-radius: 4px; overflow-x: auto; font-size: 0.875rem; }
   .msg code { background: var(--code-bg); padding: 0.1em 0.3em; border-radius: 3px; font-size: 0.9em; }
   .msg pre code { background: none; padding: 0; }
-  .tool { font-size: 0.85rem; color: var(--fg-muted); padding: 0.3rem 1rem; margin-bottom: 0.25rem; }
+  .msg.bot { white-space: normal; }
+  .msg.bot > :first-child { margin-top: 0; }
+  .msg.bot > :last-child { margin-bottom: 0; }
+  .msg.bot p, .msg.bot ul, .msg.bot ol, .msg.bot blockquote, .msg.bot table { margin: 0.6em 0; }
+  .msg.bot ul, .msg.bot ol { padding-left: 1.5em; }
+  .msg.bot pre { position: relative; background: var(--bg); border: 1px solid var(--border); }
+  .msg.bot blockquote { border-left: 3px solid var(--border); margin-left: 0; padding-left: 0.75em; color: var(--fg-muted); }
+  .msg.bot table { border-collapse: collapse; display: block; overflow-x: auto; }
+  .msg.bot th, .msg.bot td { border: 1px solid var(--border); padding: 0.25em 0.6em; }
+  .msg.bot a { color: #58a6ff; }
+  .msg.bot .math-display { display: block; overflow-x: auto; text-align: center; }
+  .copy {
+    position: absolute; top: 0.3rem; right: 0.3rem; padding: 0.1rem 0.5rem;
+    border: 1px solid var(--border); border-radius: 4px; background: var(--bg); color: var(--fg-muted);
+    font-size: 0.75rem; cursor: pointer; opacity: 0; transition: opacity 0.15s;
+  }
+  .msg.bot pre:hover .copy, .copy:focus { opacity: 1; }
+${MATH_CSS}
+${HIGHLIGHT_CSS}
+  .tool-card { font-size: 0.85rem; margin: 0 0 0.5rem; border: 1px solid var(--border); border-radius: 6px; }
+  .tool-card summary {
+    padding: 0.3rem 0.75rem; cursor: pointer; color: var(--fg-muted);
+    white-space: nowrap; overflow: hidden; text-overflow: ellipsis;
+  }
+  .tool-card summary strong { color: var(--fg); font-weight: 600; }
+  .tool-card summary code { font-size: 0.8rem; }
+  .tool-card .status { float: right; margin-left: 0.5rem; }
+  .tool-card.error { border-color: #cf222e; }
+  .tool-card.error .status { color: #cf222e; }
+  .tool-body { padding: 0 0.75rem 0.5rem; }
+  .tool-body pre {
+    background: var(--code-bg); padding: 0.5rem; border-radius: 4px; margin: 0.4rem 0 0;
+    overflow: auto; max-height: 24rem; font-size: 0.8rem; white-space: pre;
+  }
+  .tool-body .matches { margin: 0.4rem 0 0; padding-left: 1.25rem; max-height: 16rem; overflow-y: auto; font-family: monospace; font-size: 0.8rem; }
+  .tool-note { color: var(--fg-muted); font-size: 0.8rem; margin-top: 0.4rem; }
+  .diff .add { color: #1a7f37; background: rgba(46, 160, 67, 0.15); display: block; }
+  .diff .del { color: #cf222e; background: rgba(248, 81, 73, 0.15); display: block; }
+  .diff .ctx { display: block; }
   .meta { font-size: 0.75rem; color: var(--fg-muted); text-align: right; margin-top: 0.25rem; }
+  .permission {
+    border: 1px solid #d29922; border-radius: 8px; padding: 0.6rem 1rem; margin-bottom: 1rem; font-size: 0.9rem;
+  }
+  .permission pre {
+    background: var(--code-bg); padding: 0.5rem; border-radius: 4px; overflow-x: auto;
+    font-size: 0.8rem; max-height: 16rem; margin: 0.5rem 0;
+  }
+  .permission .actions { display: flex; gap: 0.5rem; flex-wrap: wrap; }
+  .permission button {
+    padding: 0.3rem 0.75rem; border: 1px solid var(--border); border-radius: 6px;
+    background: var(--bg); color: var(--fg); font-size: 0.85rem; cursor: pointer;
+  }
+  .permission button.allow { background: #238636; border-color: #238636; color: #fff; }
+  .permission button:disabled { opacity: 0.5; cursor: not-allowed; }
+  .permission .answer { color: var(--fg-muted); font-size: 0.85rem; }
   #input-area {
     border-top: 1px solid var(--border); padding: 0.75rem 1rem;
     max-width: 46rem; width: 100%; margin: 0 auto;
@@ -231,6 +655,22 @@ function chatPage(): string {
     min-height: 2.5rem; max-height: 8rem;
   }
   #input:focus { outline: none; border-color: #58a6ff; }
+  #profile {
+    align-self: flex-end; max-width: 9rem; padding: 0.5rem; border: 1px solid var(--border); border-radius: 6px;
+    background: var(--bg); color: var(--fg); font: inherit; font-size: 0.9rem;
+  }
+  #profile:disabled { color: var(--fg-muted); }
+  #input-area { position: relative; }
+  #mentions {
+    position: absolute; bottom: 100%; left: 1rem; right: 1rem; margin: 0 0 0.25rem; padding: 0.25rem 0;
+    list-style: none; background: var(--bg); border: 1px solid var(--border); border-radius: 6px;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15); max-height: 16rem; overflow-y: auto;
+  }
+  #mentions li { padding: 0.3rem 0.75rem; cursor: pointer; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+  #mentions li.active { background: var(--bot-bg); }
+  #mentions .title { margin-left: 0.5rem; color: var(--fg-muted); font-size: 0.85rem; }
+  .doc-edited { margin: -0.5rem 0 1rem; font-size: 0.85rem; color: var(--fg-muted); }
+  .doc-edited a { color: #58a6ff; }
   #send {
     padding: 0.5rem 1rem; border: none; border-radius: 6px;
     background: #238636; color: #fff; font-size: 1rem; cursor: pointer;
@@ -238,27 +678,73 @@ function chatPage(): string {
   }
   #send:hover { background: #2ea043; }
   #send:disabled { opacity: 0.5; cursor: not-allowed; }
+  #now, #stop {
+    padding: 0.5rem 0.75rem; border: 1px solid var(--border); border-radius: 6px;
+    background: var(--bg); color: var(--fg); font-size: 0.9rem; cursor: pointer; align-self: flex-end;
+  }
+  #stop { border-color: #cf222e; color: #cf222e; }
+  #stop:hover { background: #cf222e; color: #fff; }
+  #queue { max-width: 46rem; width: 100%; margin: 0 auto; padding: 0 1rem; font-size: 0.85rem; color: var(--fg-muted); }
+  #queue div { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; padding: 0.15rem 0; }
   #status { font-size: 0.75rem; color: var(--fg-muted); padding: 0.25rem 1rem; text-align: center; }
 </style>
 </head>
 <body>
+<button id="toggle-sidebar" aria-label="Conversations">&#9776;</button>
+<aside id="sidebar">
+  <button id="new-chat">+ New chat</button>
+  <ul id="conversations"></ul>
+</aside>
+<div id="main">
 <div id="status">Connecting...</div>
 <div id="messages"></div>
+<div id="queue"></div>
 <div id="input-area">
-  <textarea id="input" rows="1" placeholder="Send a message..." disabled></textarea>
+  <ul id="mentions" role="listbox" hidden></ul>
+  <select id="profile" title="Agent for a new chat" aria-label="Agent" hidden></select>
+  <textarea id="input" rows="1" placeholder="Send a message... (@ to mention a doc)" disabled></textarea>
   <button id="send" disabled>Send</button>
+  <button id="now" title="Stop the current reply and send this instead" hidden>Send now</button>
+  <button id="stop" title="Stop the current reply" hidden>Stop</button>
+</div>
 </div>
 <script>
 const messages = document.getElementById("messages");
 const input = document.getElementById("input");
 const sendBtn = document.getElementById("send");
+const nowBtn = document.getElementById("now");
+const stopBtn = document.getElementById("stop");
+const queue = document.getElementById("queue");
 const status = document.getElementById("status");
+const sidebar = document.getElementById("sidebar");
+const list = document.getElementById("conversations");
+const profileSelect = document.getElementById("profile");
 
 let ws;
 let currentBot = null;
 let busy = false;
+let currentId = location.hash.slice(1) || null; // /chat#<id> reopens a conversation
+let opening = null;
+let docs = []; // what @ can mention: [{ slug, title }]
+let profiles = []; // agent profiles: [{ name, label, description }]
+let defaultProfile = null;
+let pickedProfile = null; // the user's choice for new chats
+let currentProfile = null; // the open conversation's
+// for picking the stream up again after a reconnect (see protocol.ts)
+let resumeToken = null;
+let lastSeq = 0;
+let lastHeard = 0;
 const TOKEN_KEY = "ws_token";
 
+// "Ask about this doc" opens /chat?doc=<slug>: a new chat that mentions it
+const askAbout = new URLSearchParams(location.search).get("doc");
+if (askAbout) {
+  currentId = null;
+  input.value = "@" + askAbout + " ";
+  input.setSelectionRange(input.value.length, input.value.length);
+  history.replaceState(null, "", location.pathname);
+}
+
 function getToken() {
   let t = localStorage.getItem(TOKEN_KEY);
   if (!t) {
@@ -268,6 +754,385 @@ function getToken() {
   return t;
 }
 
+function sendMsg(msg) {
+  ws.send(JSON.stringify(msg));
+}
+
+// While a reply streams you can keep typing: Send queues the message behind
+// it, Send now stops it and goes next, Stop just stops.
+function setBusy(b) {
+  busy = b;
+  input.disabled = false;
+  sendBtn.disabled = false;
+  sendBtn.textContent = b ? "Queue" : "Send";
+  nowBtn.hidden = !b;
+  stopBtn.hidden = !b;
+  sidebar.classList.toggle("busy", b);
+  if (!b) input.focus();
+}
+
+// "$0.42 of $5.00"
+function spend(usd, limit) {
+  return "$" + usd.toFixed(2) + (limit !== undefined ? " of $" + limit.toFixed(2) : "");
+}
+
+// The picker chooses the agent for a new chat. An open conversation keeps
+// the one it started with, so the picker just shows it.
+function renderProfiles() {
+  profileSelect.textContent = "";
+  for (const p of profiles) {
+    const opt = document.createElement("option");
+    opt.value = p.name;
+    opt.textContent = p.label;
+    opt.title = p.description;
+    profileSelect.appendChild(opt);
+  }
+  profileSelect.hidden = profiles.length < 2;
+}
+
+function showProfile(name) {
+  currentProfile = name;
+  if (name === null) {
+    profileSelect.disabled = false;
+    profileSelect.value = profiles.some((p) => p.name === pickedProfile) ? pickedProfile : defaultProfile;
+    return;
+  }
+  if (!profiles.some((p) => p.name === name)) {
+    const opt = document.createElement("option");
+    opt.value = name;
+    opt.textContent = name + " (removed)";
+    profileSelect.appendChild(opt);
+  }
+  profileSelect.value = name;
+  profileSelect.disabled = true;
+}
+
+function renderQueue(prompts) {
+  queue.textContent = "";
+  for (const text of prompts) {
+    const item = document.createElement("div");
+    item.textContent = "Queued: " + text;
+    queue.appendChild(item);
+  }
+}
+
+function setCurrent(id) {
+  currentId = id;
+  history.replaceState(null, "", id ? "#" + id : location.pathname);
+  for (const li of list.children) li.classList.toggle("active", li.dataset.id === id);
+}
+
+function clearMessages() {
+  messages.textContent = "";
+  currentBot = null;
+}
+
+// Draws one event, live or replayed from a saved transcript.
+function render(evt) {
+  switch (evt.type) {
+    case "prompt": {
+      const userMsg = document.createElement("div");
+      userMsg.className = "msg user";
+      userMsg.textContent = evt.text;
+      messages.appendChild(userMsg);
+      currentBot = null;
+      break;
+    }
+    case "text-html":
+      // the server re-renders the whole message as it streams; the raw
+      // text-delta events alongside it aren't drawn
+      if (!currentBot) {
+        currentBot = document.createElement("div");
+        currentBot.className = "msg bot";
+        messages.appendChild(currentBot);
+      }
+      currentBot.innerHTML = evt.html;
+      addCopyButtons(currentBot);
+      break;
+    case "tool-use":
+      messages.appendChild(toolCard(evt));
+      currentBot = null;
+      break;
+    case "tool-result":
+      renderToolResult(evt);
+      break;
+    case "permission-request":
+      messages.appendChild(permissionCard(evt));
+      currentBot = null;
+      break;
+    case "permission-resolved":
+      resolvePermission(evt.id, ANSWERS[evt.decision]);
+      break;
+    case "done":
+      if (currentBot) {
+        const meta = document.createElement("div");
+        meta.className = "meta";
+        meta.textContent = "$" + evt.cost.toFixed(4) + " \\u00b7 " + evt.turns + " turn" + (evt.turns !== 1 ? "s" : "");
+        currentBot.appendChild(meta);
+      }
+      currentBot = null;
+      break;
+    case "cancelled": {
+      // keep whatever streamed before the stop, and say that it stopped
+      const meta = document.createElement("div");
+      meta.className = "meta";
+      meta.textContent = "Stopped" + (evt.cost !== undefined ? " \\u00b7 $" + evt.cost.toFixed(4) : "");
+      (currentBot || messages).appendChild(meta);
+      currentBot = null;
+      break;
+    }
+    case "doc-edited": {
+      const note = document.createElement("div");
+      note.className = "doc-edited";
+      const link = document.createElement("a");
+      link.href = "/" + evt.slug.split("/").map(encodeURIComponent).join("/");
+      link.target = "_blank";
+      link.textContent = evt.slug;
+      note.append("Edited ", link);
+      messages.appendChild(note);
+      break;
+    }
+    case "error": {
+      const err = document.createElement("div");
+      err.className = "msg error";
+      err.textContent = evt.message;
+      messages.appendChild(err);
+      currentBot = null;
+      break;
+    }
+  }
+  messages.scrollTop = messages.scrollHeight;
+}
+
+function addCopyButtons(el) {
+  for (const block of el.querySelectorAll("pre")) {
+    const btn = document.createElement("button");
+    btn.className = "copy";
+    btn.textContent = "Copy";
+    btn.onclick = async () => {
+      await navigator.clipboard.writeText(block.querySelector("code")?.textContent ?? "");
+      btn.textContent = "Copied";
+      setTimeout(() => (btn.textContent = "Copy"), 1500);
+    };
+    block.appendChild(btn);
+  }
+}
+
+// ---- Tool cards ----
+
+// One line saying what the call is about, for the collapsed card.
+function toolSummary(name, input) {
+  if (name === "Bash") return input.command || "";
+  if (name === "Read" || name === "Edit") return input.file_path || "";
+  if (name === "Glob" || name === "Grep") return (input.pattern || "") + (input.path ? " in " + input.path : "");
+  if (name === "WebSearch") return input.query || "";
+  return "";
+}
+
+function pre(text, className) {
+  const el = document.createElement("pre");
+  if (className) el.className = className;
+  el.textContent = text;
+  return el;
+}
+
+// Lines the edit leaves alone are shown as context around the changed block.
+function diffView(before, after) {
+  const a = before.split("\\n");
+  const b = after.split("\\n");
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const view = pre("", "diff");
+  const line = (cls, prefix, text) => {
+    const span = document.createElement("span");
+    span.className = cls;
+    span.textContent = prefix + text;
+    view.appendChild(span);
+  };
+  for (const l of a.slice(0, start)) line("ctx", "  ", l);
+  for (const l of a.slice(start, a.length - end)) line("del", "- ", l);
+  for (const l of b.slice(start, b.length - end)) line("add", "+ ", l);
+  for (const l of a.slice(a.length - end)) line("ctx", "  ", l);
+  return view;
+}
+
+// What the tool is about to do, in the form that's easiest to check.
+function describeInput(name, input) {
+  if (name === "Bash") return pre("$ " + (input.command || ""));
+  if (name === "Edit") return diffView(input.old_string || "", input.new_string || "");
+  if (name === "Read" || name === "Glob" || name === "Grep" || name === "WebSearch") return null;
+  return pre(JSON.stringify(input, null, 2));
+}
+
+function toolCard(evt) {
+  const input = evt.input || {};
+  const card = document.createElement("details");
+  card.className = "tool-card";
+  if (evt.id) card.dataset.id = evt.id;
+
+  const summary = document.createElement("summary");
+  const status = document.createElement("span");
+  status.className = "status";
+  const name = document.createElement("strong");
+  name.textContent = evt.name;
+  const what = document.createElement("code");
+  what.textContent = toolSummary(evt.name, input);
+  summary.append(status, "\\u{1F527} ", name, " ", what);
+
+  const body = document.createElement("div");
+  body.className = "tool-body";
+  const described = describeInput(evt.name, input);
+  if (described) body.appendChild(described);
+
+  card.append(summary, body);
+  return card;
+}
+
+function renderToolResult(evt) {
+  let card = evt.id ? messages.querySelector('.tool-card[data-id="' + CSS.escape(evt.id) + '"]') : null;
+  if (!card) {
+    card = toolCard({ id: evt.id, name: evt.name, input: {} });
+    messages.appendChild(card);
+  }
+  const body = card.querySelector(".tool-body");
+  const status = card.querySelector(".status");
+
+  if (evt.isError) {
+    card.classList.add("error");
+    card.open = true; // failures and denials shouldn't hide
+    status.textContent = "\\u2717";
+    body.appendChild(pre(evt.output));
+  } else if (evt.name === "Glob" || evt.name === "Grep") {
+    // the tools wrap their matches in "Found N files" and "(Results are truncated…)" lines
+    const all = evt.output.split("\\n").filter(Boolean);
+    const notes = all.filter((l) => /^Found \\d+ /.test(l) || /^\\(.*\\)$/.test(l) || /^No (files|matches) found/.test(l));
+    const lines = all.filter((l) => !notes.includes(l));
+    status.textContent = lines.length + (lines.length === 1 ? " match" : " matches");
+    if (lines.length) {
+      const list = document.createElement("ul");
+      list.className = "matches";
+      for (const l of lines) list.appendChild(Object.assign(document.createElement("li"), { textContent: l }));
+      body.appendChild(list);
+    }
+    for (const text of lines.length ? notes.filter((l) => l.startsWith("(")) : notes.length ? notes : ["No matches"]) {
+      body.appendChild(Object.assign(document.createElement("div"), { className: "tool-note", textContent: text }));
+    }
+  } else {
+    status.textContent = "\\u2713";
+    if (evt.output) body.appendChild(pre(evt.output));
+  }
+
+  if (evt.truncated) {
+    const note = document.createElement("div");
+    note.className = "tool-note";
+    note.textContent = "Output truncated: showing the first " + evt.output.length.toLocaleString() + " of " + evt.truncated.toLocaleString() + " characters.";
+    body.appendChild(note);
+  }
+  messages.scrollTop = messages.scrollHeight;
+}
+
+// ---- Permission prompts ----
+
+const ANSWERS = { allow: "Allowed", always: "Always allowed", deny: "Denied" };
+
+function permissionCard(evt) {
+  const card = document.createElement("div");
+  card.className = "permission pending";
+  card.dataset.id = evt.id;
+  const title = document.createElement("div");
+  title.append("Allow ");
+  const name = document.createElement("strong");
+  name.textContent = evt.name;
+  title.append(name, "?");
+  const input = evt.input || {};
+  const described = describeInput(evt.name, input) || pre(toolSummary(evt.name, input));
+
+  const actions = document.createElement("div");
+  actions.className = "actions";
+  for (const [decision, label] of [["allow", "Allow"], ["always", "Always allow " + evt.rule], ["deny", "Deny"]]) {
+    const btn = document.createElement("button");
+    btn.className = decision;
+    btn.textContent = label;
+    btn.onclick = () => {
+      for (const b of actions.querySelectorAll("button")) b.disabled = true;
+      sendMsg({ type: "permission", id: evt.id, decision });
+    };
+    actions.appendChild(btn);
+  }
+  card.append(title, described, actions);
+  return card;
+}
+
+function resolvePermission(id, text) {
+  const card = messages.querySelector('.permission[data-id="' + CSS.escape(id) + '"]');
+  if (!card) return;
+  card.classList.remove("pending");
+  const answer = document.createElement("div");
+  answer.className = "answer";
+  answer.textContent = text;
+  card.querySelector(".actions").replaceWith(answer);
+}
+
+function renderConversations(conversations) {
+  list.textContent = "";
+  for (const c of conversations) {
+    const li = document.createElement("li");
+    li.className = "conv" + (c.id === currentId ? " active" : "");
+    li.dataset.id = c.id;
+
+    const open = document.createElement("button");
+    open.className = "open";
+    const title = document.createElement("span");
+    title.className = "title";
+    title.textContent = c.title;
+    const when = document.createElement("span");
+    when.className = "when";
+    when.textContent = new Date(c.updated).toLocaleString();
+    const agent = profiles.length > 1 && profiles.find((p) => p.name === c.profile);
+    if (agent) when.textContent += " \\u00b7 " + agent.label;
+    open.append(title, when);
+    open.onclick = () => {
+      if (c.id === currentId) return;
+      opening = c.id;
+      sendMsg({ type: "open", id: c.id });
+      document.body.classList.remove("show-sidebar");
+    };
+
+    const rename = document.createElement("button");
+    rename.className = "action";
+    rename.title = "Rename";
+    rename.textContent = "\\u270E";
+    rename.onclick = () => {
+      const t = prompt("Rename conversation:", c.title);
+      if (t && t.trim()) sendMsg({ type: "rename", id: c.id, title: t });
+    };
+
+    const del = document.createElement("button");
+    del.className = "action";
+    del.title = "Delete";
+    del.textContent = "\\u00D7";
+    del.onclick = () => {
+      if (!confirm("Delete \\u201C" + c.title + "\\u201D?")) return;
+      sendMsg({ type: "delete", id: c.id });
+      if (c.id === currentId) newChat();
+    };
+
+    li.append(open, rename, del);
+    list.appendChild(li);
+  }
+}
+
+function newChat() {
+  sendMsg({ type: "new" });
+  clearMessages();
+  setCurrent(null);
+  showProfile(null);
+  input.focus();
+}
+
 function connect() {
   const token = getToken();
   if (!token) { status.textContent = "No token provided"; return; }
@@ -277,103 +1142,211 @@ function connect() {
   ws = new WebSocket(proto + "//" + location.host + "/ws");
 
   ws.onopen = () => {
-    ws.send(JSON.stringify({ type: "auth", token }));
+    lastHeard = Date.now();
+    const auth = { type: "auth", token, version: ${PROTOCOL_VERSION} };
+    if (resumeToken) Object.assign(auth, { resume: resumeToken, after: lastSeq });
+    sendMsg(auth);
   };
 
   ws.onmessage = (e) => {
+    lastHeard = Date.now();
     const evt = JSON.parse(e.data);
+    if (evt.type === "ping") return sendMsg({ type: "pong" });
+    if (evt.seq !== undefined) {
+      if (evt.seq <= lastSeq) return; // already handled before the reconnect
+      lastSeq = evt.seq;
+    }
     switch (evt.type) {
       case "auth-ok":
         status.textContent = "Connected";
-        input.disabled = false;
-        sendBtn.disabled = false;
-        input.focus();
-        break;
-      case "text-delta":
-        if (!currentBot) {
-          currentBot = document.createElement("div");
-          currentBot.className = "msg bot";
-          messages.appendChild(currentBot);
+        // a new stream counts from 1 again
+        if (evt.resume !== resumeToken) lastSeq = 0;
+        resumeToken = evt.resume;
+        setBusy(evt.busy);
+        // the server replays what was missed; otherwise, pick up where we were
+        if (!evt.resumed && currentId) {
+          opening = currentId;
+          sendMsg({ type: "open", id: currentId });
         }
-        currentBot.textContent += evt.delta;
-        messages.scrollTop = messages.scrollHeight;
         break;
-      case "tool-use": {
-        const tool = document.createElement("div");
-        tool.className = "tool";
-        tool.textContent = "\\u{1F527} " + evt.name;
-        messages.appendChild(tool);
-        messages.scrollTop = messages.scrollHeight;
+      case "profiles":
+        profiles = evt.profiles;
+        defaultProfile = evt.default;
+        renderProfiles();
+        showProfile(currentProfile);
+        break;
+      case "conversations":
+        renderConversations(evt.conversations);
+        break;
+      case "conversation":
+        opening = null;
+        clearMessages();
+        setCurrent(evt.id);
+        showProfile(evt.profile);
+        for (const entry of evt.entries) render(entry);
+        // a saved request nobody answered can't be answered any more, unless
+        // it's from the turn that's still running
+        if (!busy) for (const card of messages.querySelectorAll(".permission.pending")) resolvePermission(card.dataset.id, "No answer");
+        break;
+      case "conversation-started":
+        setCurrent(evt.id);
+        showProfile(evt.profile);
+        break;
+      case "prompt":
+        // the server echoes each prompt as its turn starts, queued ones included
+        render(evt);
+        setBusy(true);
+        break;
+      case "queue":
+        renderQueue(evt.prompts);
+        break;
+      case "docs":
+        docs = evt.docs;
+        break;
+      case "usage":
+        status.textContent = evt.user + " \\u00b7 today " + spend(evt.today, evt.daily) + " \\u00b7 this month " + spend(evt.month, evt.monthly);
         break;
-      }
       case "done":
-        if (currentBot) {
-          const meta = document.createElement("div");
-          meta.className = "meta";
-          meta.textContent = "$" + evt.cost.toFixed(4) + " \\u00b7 " + evt.turns + " turn" + (evt.turns !== 1 ? "s" : "");
-          currentBot.appendChild(meta);
-        }
-        currentBot = null;
-        busy = false;
-        input.disabled = false;
-        sendBtn.disabled = false;
-        input.focus();
+      case "cancelled":
+        render(evt);
+        setBusy(false);
         break;
-      case "error": {
-        const err = document.createElement("div");
-        err.className = "msg error";
-        err.textContent = evt.message;
-        messages.appendChild(err);
-        currentBot = null;
-        busy = false;
-        input.disabled = false;
-        sendBtn.disabled = false;
+      case "error":
+        render(evt);
+        if (opening) {
+          // the conversation is gone — start fresh
+          opening = null;
+          clearMessages();
+          setCurrent(null);
+          showProfile(null);
+        }
+        if (!evt.recoverable) setBusy(false);
         break;
-      }
+      default:
+        render(evt);
     }
   };
 
-  ws.onclose = (ev) => {
-    input.disabled = true;
-    sendBtn.disabled = true;
-    if (ev.code === 4401) {
-      localStorage.removeItem(TOKEN_KEY);
-      status.textContent = "Invalid token. Reload to retry.";
-      return;
-    }
-    status.textContent = "Disconnected. Reconnecting...";
-    setTimeout(connect, 2000);
-  };
-
+  ws.onclose = (ev) => disconnected(ev.code);
   ws.onerror = () => ws.close();
 }
 
-function send() {
-  const text = input.value.trim();
-  if (!text || busy) return;
+function disconnected(code) {
+  input.disabled = true;
+  sendBtn.disabled = true;
+  nowBtn.hidden = true;
+  stopBtn.hidden = true;
+  renderQueue([]);
+  if (code === 4401) {
+    localStorage.removeItem(TOKEN_KEY);
+    status.textContent = "Invalid token. Reload to retry.";
+    return;
+  }
+  if (code === 4400) {
+    status.textContent = "The server has been updated. Reload the page.";
+    return;
+  }
+  if (code === 4409) {
+    status.textContent = "Continued in another window.";
+    return;
+  }
+  status.textContent = "Disconnected. Reconnecting...";
+  setTimeout(connect, 2000);
+}
 
-  const userMsg = document.createElement("div");
-  userMsg.className = "msg user";
-  userMsg.textContent = text;
-  messages.appendChild(userMsg);
-  messages.scrollTop = messages.scrollHeight;
+// The server pings every ${HEARTBEAT_MS / 1000}s. A socket that's gone quiet for
+// two of those is dead even if the browser hasn't noticed; don't wait for
+// its close handshake.
+setInterval(() => {
+  if (ws?.readyState !== WebSocket.OPEN || Date.now() - lastHeard < ${2 * HEARTBEAT_MS}) return;
+  ws.onclose = ws.onerror = ws.onmessage = null;
+  ws.close();
+  disconnected(1006);
+}, ${HEARTBEAT_MS / 3});
+
+function send(mode) {
+  const text = input.value.trim();
+  if (!text) return;
 
-  ws.send(text);
+  const msg = busy ? { type: "prompt", text, mode } : { type: "prompt", text };
+  if (!currentId && profileSelect.value) msg.profile = profileSelect.value;
+  sendMsg(msg);
   input.value = "";
   input.style.height = "auto";
-  busy = true;
-  input.disabled = true;
-  sendBtn.disabled = true;
 }
 
-sendBtn.onclick = send;
+// ---- @mentions ----
+
+const mentions = document.getElementById("mentions");
+let matches = [];
+let selected = 0;
+
+// The "@partial" right before the caret, if there is one.
+function mentionQuery() {
+  const m = input.value.slice(0, input.selectionStart).match(/(?:^|\\s)@([^\\s@]*)$/);
+  return m ? m[1].toLowerCase() : null;
+}
+
+function updateMentions() {
+  const q = mentionQuery();
+  matches = q === null ? [] : docs.filter((d) => d.slug.toLowerCase().includes(q) || d.title.toLowerCase().includes(q)).slice(0, 8);
+  selected = 0;
+  drawMentions();
+}
+
+function drawMentions() {
+  mentions.textContent = "";
+  mentions.hidden = matches.length === 0;
+  matches.forEach((d, i) => {
+    const li = document.createElement("li");
+    li.setAttribute("role", "option");
+    li.classList.toggle("active", i === selected);
+    li.textContent = "@" + d.slug;
+    if (d.title !== d.slug.split("/").pop()) {
+      const title = document.createElement("span");
+      title.className = "title";
+      title.textContent = d.title;
+      li.appendChild(title);
+    }
+    // mousedown, so the textarea keeps focus
+    li.onmousedown = (e) => { e.preventDefault(); pickMention(d.slug); };
+    mentions.appendChild(li);
+  });
+}
+
+function pickMention(slug) {
+  const pos = input.selectionStart;
+  const before = input.value.slice(0, pos).replace(/@[^\\s@]*$/, "@" + slug + " ");
+  input.value = before + input.value.slice(pos);
+  input.setSelectionRange(before.length, before.length);
+  matches = [];
+  drawMentions();
+}
+
+sendBtn.onclick = () => send("queue");
+profileSelect.onchange = () => { pickedProfile = profileSelect.value; };
+nowBtn.onclick = () => send("interject");
+stopBtn.onclick = () => sendMsg({ type: "cancel" });
+document.getElementById("new-chat").onclick = newChat;
+document.getElementById("toggle-sidebar").onclick = () => document.body.classList.toggle("show-sidebar");
 input.addEventListener("keydown", (e) => {
-  if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); send(); }
+  if (matches.length > 0) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      selected = (selected + (e.key === "ArrowDown" ? 1 : matches.length - 1)) % matches.length;
+      return drawMentions();
+    }
+    if (e.key === "Enter" || e.key === "Tab") { e.preventDefault(); return pickMention(matches[selected].slug); }
+    if (e.key === "Escape") { matches = []; return drawMentions(); }
+  }
+  if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); send("queue"); }
 });
 input.addEventListener("input", () => {
   input.style.height = "auto";
   input.style.height = Math.min(input.scrollHeight, 128) + "px";
+  updateMentions();
 });
+input.addEventListener("blur", () => { matches = []; drawMentions(); });
 
 connect();
 </script>
@@ -381,92 +1354,155 @@ connect();
 </html>`;
 }
 
-function escapeHtml(s: string): string {
-  return s
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;");
-}
+// Replies are model output, put in place with innerHTML: only the page's own
+// script may run, so nothing in one can get at the token in localStorage.
+const CHAT_PAGE = chatPage();
+const CHAT_CSP = [`script-src ${scriptHash(CHAT_PAGE.slice(CHAT_PAGE.indexOf("<script>")))}`, "object-src 'none'", "base-uri 'none'"].join("; ");
 
 // ---------------------------------------------------------------------------
-// Access control
+// Helpers
 // ---------------------------------------------------------------------------
 
-type AccessRules = Record<string, string[]>; // slug → list of allowed tokens
+function formatDate(d: Date): string {
+  return d.toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
 
-const ACCESS_FILE = join(DOCS_DIR, ".access.json");
+function newestMtime(docs: DocEntry[]): Date | undefined {
+  if (docs.length === 0) return undefined;
+  return new Date(Math.max(...docs.map((d) => d.mtime.getTime())));
+}
 
-async function loadAccess(): Promise<AccessRules> {
-  try {
-    return JSON.parse(await readFile(ACCESS_FILE, "utf-8"));
-  } catch {
-    return {};
-  }
+function renderDocItem(d: DocEntry): string {
+  const summary = d.meta.summary ? `\n<p class="summary">${escapeHtml(d.meta.summary)}</p>` : "";
+  return `<li><div><a href="${slugHref(d.slug)}">${escapeHtml(d.name)}</a>${summary}</div> <span class="meta">${formatDate(docDate(d))}</span></li>`;
 }
 
-function getToken(req: Request, url: URL): string | null {
-  return (
-    url.searchParams.get("t") ||
-    req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ||
-    null
-  );
+function renderTags(tags: string[]): string {
+  return tags.map((t) => `<a class="tag" href="/tags/${encodeURIComponent(t)}">#${escapeHtml(t)}</a>`).join(" ");
 }
 
-function canAccess(slug: string, token: string | null, rules: AccessRules): boolean {
-  if (!(slug in rules)) return true; // not listed → public
-  return token !== null && rules[slug].includes(token);
+interface RenderedDoc {
+  meta: DocMeta;
+  html: string;
+  toc: TocEntry[]; // its headings, in order
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+async function renderDoc(slug: string, resolved: string, index: DocIndex): Promise<RenderedDoc> {
+  return renderMarkdown(slug, await readFile(resolved, "utf-8"), index);
+}
 
-interface DocEntry {
-  slug: string;
-  name: string;
-  mtime: Date;
+/** A doc's markdown as HTML. Wiki-links resolve against `index`, the docs there are now. */
+async function renderMarkdown(slug: string, md: string, index: DocIndex): Promise<RenderedDoc> {
+  const { meta, body } = parseFrontMatter(md);
+  const renderer = meta.math ? marked : markedNoMath;
+  const toc: TocEntry[] = [];
+  const images = resolveImages(slugDir(slug));
+  const wikiLinks = resolveWikiLinks(slug, index);
+  const headings = headingIds(toc);
+  const html = await renderer.parse(body, {
+    walkTokens: (token) => {
+      images(token);
+      wikiLinks(token);
+      headings(token);
+    },
+  });
+  return { meta, html, toc };
 }
 
-async function listDocs(): Promise<DocEntry[]> {
-  let entries: string[];
-  try {
-    entries = await readdir(DOCS_DIR);
-  } catch {
-    return [];
-  }
+// TeX commands from MathJax's html package, which put links, classes, ids
+// and styles on the SVG: markup as much as raw HTML is.
+const TEX_MARKUP = /\\(?:href|class|cssId|style)(?![a-zA-Z])/;
+
+/**
+ * The raw HTML in a document, as written, and the math that adds markup.
+ * Marked passes HTML through as-is, so only admins may add it (see docEditor).
+ */
+function rawHtml(md: string): Set<string> {
+  const { meta, body } = parseFrontMatter(md);
+  const renderer = meta.math ? marked : markedNoMath;
+  const found = new Set<string>();
+  renderer.walkTokens(renderer.lexer(body), (token) => {
+    if (token.type === "html") found.add(token.raw.trim());
+    if ((token.type === "blockMath" || token.type === "inlineMath") && TEX_MARKUP.test(token.raw)) found.add(token.raw.trim());
+  });
+  return found;
+}
 
-  const docs: DocEntry[] = [];
-  for (const entry of entries) {
-    if (!entry.endsWith(".md")) continue;
-    const fullPath = join(DOCS_DIR, entry);
-    try {
-      // realpath follows symlinks; stat the resolved path
-      const resolved = await realpath(fullPath);
-      const docsReal = await realpath(DOCS_DIR);
-      if (!resolved.startsWith(docsReal + "/")) continue;
-      const st = await stat(resolved);
-      if (!st.isFile()) continue;
-      docs.push({
-        slug: entry.replace(/\.md$/, ""),
-        name: entry.replace(/\.md$/, ""),
-        mtime: st.mtime,
-      });
-    } catch {
-      // broken symlink or permission error — skip
-    }
-  }
+function docActions(slug: string, chat: boolean): string {
+  const href = slugHref(slug);
+  const ask = chat ? ` &middot; <a href="/chat?doc=${encodeURIComponent(slug)}">Ask about this doc</a>` : "";
+  return `<div class="doc-actions"><a href="${href}.html?download">HTML</a> &middot; <a href="${href}.pdf">PDF</a> &middot; <a href="${href}/edit">Edit</a> &middot; <a href="${href}/history">History</a>${ask}</div>\n`;
+}
 
-  docs.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-  return docs;
+/** Date and tags line shown under a document's breadcrumbs. */
+function docHeader(meta: DocMeta): string {
+  const parts: string[] = [];
+  if (meta.draft) parts.push(`<span class="draft">Draft</span>`);
+  if (meta.date) parts.push(`<time datetime="${meta.date.toISOString()}">${formatDate(meta.date)}</time>`);
+  if (meta.tags.length > 0) parts.push(renderTags(meta.tags));
+  return parts.length > 0 ? `<div class="doc-meta">${parts.join(" &middot; ")}</div>\n` : "";
 }
 
-function formatDate(d: Date): string {
-  return d.toLocaleDateString("en-US", {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
+function renderTree(folder: DocFolder): string {
+  const folders = folder.folders.map(
+    (f) =>
+      `<li class="folder"><details open><summary>${escapeHtml(f.name)}/ <span class="meta">${formatDate(f.mtime)}</span></summary>\n${renderTree(f)}\n</details></li>`
+  );
+  const items = [...folders, ...folder.docs.map(renderDocItem)].join("\n");
+  return `<ul class="file-list">\n${items}\n</ul>`;
+}
+
+/** "Signed in as Alice · Log out" on the index, when a session is active. */
+function sessionNote(token: string | null, rules: AccessRules): string {
+  const t = resolveToken(token, rules);
+  const create = hasPermission(t, "edit") ? ` &middot; <a href="/new">New document</a>` : "";
+  return t ? `<p class="session">Signed in as ${escapeHtml(t.label)}${create} &middot; <a href="/logout">Log out</a></p>\n` : "";
+}
+
+/** For editors, a link to start a document in this folder. */
+function newDocNote(folder: string, token: string | null, rules: AccessRules): string {
+  const t = resolveToken(token, rules);
+  return hasPermission(t, "edit") ? `<p class="session"><a href="/new?folder=${encodeURIComponent(folder)}">New document here</a></p>\n` : "";
+}
+
+function searchForm(q: string): string {
+  return `<form class="search-form" action="/search" method="get">
+<input type="search" name="q" value="${escapeHtml(q)}" placeholder="Search documents — &quot;exact phrase&quot;, prefix*" aria-label="Search">
+</form>`;
+}
+
+function searchBody(q: string, results: SearchResult[]): string {
+  const form = searchForm(q);
+  if (!q) return `<a class="back" href="/">&larr; Back</a>\n<h1>Search</h1>\n${form}`;
+  const items = results
+    .map(
+      (r) =>
+        `<li><a href="${slugHref(r.slug)}">${escapeHtml(r.name)}</a> <span class="meta">${escapeHtml(r.slug)} &middot; ${formatDate(r.mtime)}</span>\n<p class="snippet">${r.snippet}</p></li>`
+    )
+    .join("\n");
+  const list =
+    results.length > 0
+      ? `<p class="meta">${results.length} result${results.length !== 1 ? "s" : ""}</p>\n<ul class="results">\n${items}\n</ul>`
+      : `<p>No documents match <strong>${escapeHtml(q)}</strong>.</p>`;
+  return `<a class="back" href="/">&larr; Back</a>\n<h1>Search</h1>\n${form}\n${list}`;
+}
+
+/** "Documents / projects / alpha / results" — every level but the last is a link. */
+function breadcrumbs(path: string, title?: string): string {
+  const crumbs = [`<a href="/">Documents</a>`];
+  const parts = path ? path.split("/") : [];
+  parts.forEach((part, i) => {
+    crumbs.push(
+      i === parts.length - 1
+        ? escapeHtml(title ?? part)
+        : `<a href="${slugHref(parts.slice(0, i + 1).join("/"))}/">${escapeHtml(part)}</a>`
+    );
   });
+  return `<nav class="breadcrumbs">${crumbs.join(` <span class="sep">/</span> `)}</nav>`;
 }
 
 // ---------------------------------------------------------------------------
@@ -474,130 +1510,1924 @@ function formatDate(d: Date): string {
 // ---------------------------------------------------------------------------
 
 interface WSData {
-  sessionId?: string;
-  authenticated: boolean;
+  client?: ChatClient; // set at auth
+  lastSeen: number; // when the socket last sent anything
+}
+
+// A signed-in chat connection. It outlives its socket by RESUME_WINDOW_MS,
+// so a browser that reconnects (with `id`) picks up where it left off, even
+// in the middle of a turn.
+interface ChatClient {
+  id: string; // the resume token
+  socket: ServerWebSocket<WSData> | null; // null while disconnected
+  token: string; // the credential it signed in with, re-checked every turn
+  user: ChatUser;
+  profile?: string; // agent profile picked for the next new conversation
+  conversationId?: string; // the conversation prompts go to; none = start one
+  busy: boolean; // a turn is streaming
+  approvals: Map<string, (decision: PermissionDecision) => void>; // tool-use id → waiting tool call
+  stop?: AbortController; // stops the running turn
+  queue: string[]; // prompts sent while busy, run in order after it
+  seq: number; // of the last event sent
+  replay: Sequenced[]; // the latest events, for a resume
+  expire?: ReturnType<typeof setTimeout>; // while disconnected: forgets the client
 }
 
-let activeWsCount = 0;
+const sockets = new Set<ServerWebSocket<WSData>>();
+const clients = new Map<string, ChatClient>(); // by resume token
 
 // ---------------------------------------------------------------------------
-// Request handler
+// Chat users
 // ---------------------------------------------------------------------------
+//
+// Everyone who chats has their own credential: WS_TOKEN is the owner's, and
+// tokens minted with chat permission on /admin/tokens are teammates'. Each
+// user sees only their own conversations and spends against their own daily
+// and monthly budgets, counted from the cost the agent reports per turn.
+
+const MAX_CHAT_CONNECTIONS = Number(process.env.CHAT_MAX_CONNECTIONS) || 4;
+
+// Limits for the owner, and for tokens that don't set their own.
+const DEFAULT_BUDGET: Budget = {
+  daily: Number(process.env.CHAT_DAILY_BUDGET) || undefined,
+  monthly: Number(process.env.CHAT_MONTHLY_BUDGET) || undefined,
+};
+
+interface ChatUser {
+  id: string; // token id, or DEFAULT_OWNER for WS_TOKEN
+  name: string;
+  budget: Budget;
+}
 
-async function handler(req: Request, server: ReturnType<typeof Bun.serve>): Promise<Response> {
-  const url = new URL(req.url);
-  const path = decodeURIComponent(url.pathname);
+/** Whether the chat is on: WS_TOKEN is set, or some token can chat. */
+function chatEnabled(rules: AccessRules): boolean {
+  return Boolean(WS_TOKEN) || anyoneCanChat(rules);
+}
 
-  // --- WebSocket upgrade ---
-  if (path === "/ws") {
-    if (!WS_TOKEN) {
-      return new Response("WS auth not configured", { status: 503 });
-    }
-    // Origin check (#7)
-    const origin = req.headers.get("origin");
-    if (ALLOWED_ORIGIN && origin && origin !== ALLOWED_ORIGIN) {
-      return new Response("Forbidden", { status: 403 });
-    }
-    // Concurrency limit (#9)
-    if (activeWsCount >= 1) {
+/** Who a chat credential belongs to: WS_TOKEN, or a share token minted with chat permission. */
+async function chatUser(input: string): Promise<ChatUser | null> {
+  if (checkToken(input)) return { id: DEFAULT_OWNER, name: "owner", budget: DEFAULT_BUDGET };
+  const t = resolveToken(input, await loadAccess());
+  if (!t || !hasPermission(t, "chat")) return null;
+  return {
+    id: t.id,
+    name: t.label,
+    budget: { daily: t.budget?.daily ?? DEFAULT_BUDGET.daily, monthly: t.budget?.monthly ?? DEFAULT_BUDGET.monthly },
+  };
+}
+
+/** Why the user can't start another turn, or null if they can. */
+function overBudget(user: ChatUser, spent: { today: number; month: number }): string | null {
+  const { daily, monthly } = user.budget;
+  if (daily !== undefined && spent.today >= daily) {
+    return `You've used your daily chat budget ($${daily.toFixed(2)}). It resets at midnight UTC.`;
+  }
+  if (monthly !== undefined && spent.month >= monthly) {
+    return `You've used your monthly chat budget ($${monthly.toFixed(2)}). It resets on the 1st (UTC).`;
+  }
+  return null;
+}
+
+/** The most the next turn may spend. */
+function budgetLeft(user: ChatUser, spent: { today: number; month: number }): number {
+  const { daily = Infinity, monthly = Infinity } = user.budget;
+  return Math.min(daily - spent.today, monthly - spent.month);
+}
+
+async function sendUsage(client: ChatClient, user: ChatUser): Promise<void> {
+  const spent = await spending(user.id);
+  send(client, { type: "usage", user: user.name, ...spent, ...user.budget });
+}
+
+// ---------------------------------------------------------------------------
+// Conversations
+// ---------------------------------------------------------------------------
+
+function send(client: ChatClient, event: ServerEvent): void {
+  const sequenced = { ...event, seq: ++client.seq };
+  if (event.type === "text-html") {
+    // a newer rendering of the same reply makes the last one pointless to replay
+    const last = client.replay.findLastIndex((e) => e.type !== "text-delta");
+    if (client.replay[last]?.type === "text-html") client.replay.splice(last, 1);
+  }
+  client.replay.push(sequenced);
+  if (client.replay.length > REPLAY_LIMIT) client.replay.shift();
+  // while disconnected, events only go to the replay buffer
+  client.socket?.sendText(JSON.stringify(sequenced));
+}
+
+function sendQueue(client: ChatClient): void {
+  send(client, { type: "queue", prompts: client.queue });
+}
+
+async function sendConversations(client: ChatClient): Promise<void> {
+  const conversations = (await listConversations(client.user.id)).map(({ id, title, created, updated, profile }) => ({
+    id,
+    title,
+    created,
+    updated,
+    profile,
+  }));
+  send(client, { type: "conversations", conversations });
+}
+
+async function sendProfiles(client: ChatClient): Promise<void> {
+  const { profiles, default: fallback } = await loadProfiles();
+  send(client, { type: "profiles", profiles: profiles.map(({ name, label, description }) => ({ name, label, description })), default: fallback });
+}
+
+async function sendDocs(client: ChatClient): Promise<void> {
+  const docs = (await listDocs()).map((d) => ({ slug: d.slug, title: d.name }));
+  send(client, { type: "docs", docs });
+}
+
+async function sendConversation(client: ChatClient, conversation: Conversation): Promise<void> {
+  // saved replies are raw text; the browser only draws rendered ones
+  const entries = (await readTranscript(conversation.id)).map((entry) =>
+    entry.type === "text-delta" ? ({ type: "text-html", html: renderReply(entry.delta) } as const) : entry
+  );
+  const profile = conversation.profile ?? (await loadProfiles()).default;
+  send(client, { type: "conversation", id: conversation.id, title: conversation.title, profile, entries });
+}
+
+/** Saving history never interrupts the chat itself. */
+async function record(id: string, entry: TranscriptEntry): Promise<void> {
+  try {
+    await appendEntry(id, entry);
+  } catch (err) {
+    console.error(`history: ${id}:`, err);
+  }
+}
+
+// Streaming replies are re-rendered as markdown at most this often.
+const REPLY_RENDER_MS = 100;
+
+/** Turns a reply's text deltas into throttled text-html events. */
+function replyRenderer(client: ChatClient) {
+  let text = "";
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (text) send(client, { type: "text-html", html: renderReply(text) });
+  };
+  return {
+    append(delta: string) {
+      text += delta;
+      timer ??= setTimeout(flush, REPLY_RENDER_MS);
+    },
+    /** The message is over (a tool call, the end of the turn): render what's left, start afresh. */
+    end() {
+      if (timer) flush();
+      text = "";
+    },
+  };
+}
+
+// ---- Docs in the chat ----
+//
+// "@notes/plan" in a prompt names a document. The agent gets the prompt with
+// the mentioned files' paths appended, so it can open them; the transcript
+// keeps what the user typed.
+
+/** The prompt as the agent sees it: with the paths (from its cwd) of any `@slug` documents it mentions. */
+async function withMentionedDocs(text: string, cwd: string): Promise<string> {
+  const slugs = new Set((await listDocs()).map((d) => d.slug));
+  const mentioned = new Set<string>();
+  for (const m of text.matchAll(/(?:^|\s)@([^\s@]+)/g)) {
+    const slug = m[1].replace(/[.,;:!?)\]]+$/, "");
+    if (slugs.has(slug)) mentioned.add(slug);
+  }
+  if (mentioned.size === 0) return text;
+  const paths = [...mentioned].map((slug) => `- @${slug}: ${relative(cwd, join(DOCS_DIR, `${slug}.md`))}`);
+  return `${text}\n\nDocuments mentioned above (markdown files the site renders at /<slug>):\n${paths.join("\n")}`;
+}
+
+/** Which successful Edit and Write calls touched a document, so the chat can link to its new version. */
+function docEdits(cwd: string) {
+  const files = new Map<string, string>(); // tool-use id → file_path
+  return async (event: ChatEvent): Promise<DocEditedEvent | null> => {
+    if (event.type === "tool-use" && (event.name === "Edit" || event.name === "Write")) {
+      const path = (event.input as { file_path?: unknown } | null)?.file_path;
+      if (typeof path === "string") files.set(event.id, path);
+      return null;
+    }
+    if (event.type !== "tool-result" || !files.has(event.id)) return null;
+    const path = files.get(event.id)!;
+    files.delete(event.id);
+    const slug = event.isError ? null : await slugForFile(resolve(cwd, path));
+    return slug ? { type: "doc-edited", slug } : null;
+  };
+}
+
+/** Park a tool call until the browser answers. Closing the socket or aborting the turn denies it. */
+function waitForDecision(client: ChatClient, id: string, signal: AbortSignal): Promise<PermissionDecision> {
+  return new Promise((resolve) => {
+    const settle = (decision: PermissionDecision) => {
+      client.approvals.delete(id);
+      signal.removeEventListener("abort", onAbort);
+      resolve(decision);
+    };
+    const onAbort = () => settle("deny");
+    client.approvals.set(id, settle);
+    signal.addEventListener("abort", onAbort);
+  });
+}
+
+/** Run a prompt, then whatever was queued behind it, as one busy stretch. */
+async function runTurns(client: ChatClient, text: string): Promise<void> {
+  client.busy = true;
+  try {
+    for (let next: string | undefined = text; next !== undefined; next = client.queue.shift()) {
+      if (next !== text) sendQueue(client);
+      // looked up again every turn, so revoking a token or changing a budget applies at once
+      const user = await chatUser(client.token ?? "");
+      if (!user) return signOut(client);
+      client.user = user;
+      const spent = await spending(user.id);
+      const over = overBudget(user, spent);
+      if (over) {
+        client.queue = [];
+        sendQueue(client);
+        return send(client, { type: "error", message: over, recoverable: true });
+      }
+      client.stop = new AbortController();
+      await runPrompt(client, next, client.stop.signal, user, budgetLeft(user, spent));
+    }
+  } finally {
+    client.busy = false;
+    client.stop = undefined;
+  }
+}
+
+async function runPrompt(
+  client: ChatClient,
+  text: string,
+  signal: AbortSignal,
+  user: ChatUser,
+  budget: number,
+): Promise<void> {
+  let conversation = client.conversationId ? await getConversation(client.conversationId, user.id) : null;
+  // the conversation keeps the profile it started with, as long as agents.json still has it
+  const profile = await getProfile(conversation ? conversation.profile : client.profile);
+  if (!profile) {
+    const name = conversation?.profile ?? client.profile;
+    return send(client, { type: "error", message: `The agent profile "${name}" isn't configured`, recoverable: true });
+  }
+  if (!conversation) {
+    conversation = await createConversation(text, user.id, profile.name);
+    client.conversationId = conversation.id;
+    send(client, { type: "conversation-started", id: conversation.id, title: conversation.title, profile: profile.name });
+    await sendConversations(client);
+  }
+  const id = conversation.id;
+  let sessionId = conversation.sessionId;
+  send(client, { type: "prompt", text });
+  await record(id, { type: "prompt", text });
+
+  const permissions: Permissions = {
+    allow: [...(conversation.allow ?? [])],
+    approve: async (request, signal) => {
+      const decision = await waitForDecision(client, request.id, signal);
+      if (decision === "always") await addAllowRule(id, request.rule);
+      return decision;
+    },
+  };
+
+  const onViolation = (tool: string, input: unknown, reason: string) =>
+    void logViolation({ user: user.id, conversation: id, tool, input, reason });
+
+  const reply = replyRenderer(client);
+  const edited = docEdits(profile.cwd);
+  try {
+    // resuming the SDK session gives the agent the earlier turns
+    const prompt = await withMentionedDocs(text, profile.cwd);
+    for await (const event of chat(prompt, { profile, sessionId, permissions, signal, budget, onViolation })) {
+      if (event.type === "text-delta") reply.append(event.delta);
+      else reply.end();
+      send(client, event);
+      await record(id, event);
+      if (event.type === "done" || event.type === "cancelled") sessionId = event.session_id ?? sessionId;
+      // a turn that ran out of budget still spent it, or the next would get the same again
+      if ((event.type === "done" || event.type === "cancelled" || event.type === "error") && event.cost) {
+        await recordUsage({ user: user.id, name: user.name, conversation: id, cost: event.cost });
+      }
+      const doc = await edited(event);
+      if (doc) {
+        send(client, doc);
+        await record(id, doc);
+        // before the watcher sees the change, so the revision is the agent's
+        await recordRevision(doc.slug, { kind: "agent", user: user.name, conversation: id }).catch(() => {});
+      }
+    }
+  } catch (err) {
+    const event = {
+      type: "error",
+      message: err instanceof Error ? err.message : "Unknown error",
+      recoverable: false,
+    } as const;
+    reply.end();
+    send(client, event);
+    await record(id, event);
+  }
+  reply.end();
+  await updateConversation(id, { sessionId });
+  await sendConversations(client);
+  await sendDocs(client); // the agent may have added some
+  await sendUsage(client, user);
+}
+
+async function handleClientMessage(client: ChatClient, msg: ClientMessage): Promise<void> {
+  const refuse = (message: string) => send(client, { type: "error", message, recoverable: true });
+  const owner = client.user.id;
+  if (msg.type === "pong") return; // the heartbeat only needs to hear something
+  if (msg.type === "auth") return refuse("Already signed in");
+  // switching conversations mid-turn would mix two transcripts on screen
+  if (client.busy && !["rename", "permission", "prompt", "cancel"].includes(msg.type)) {
+    return refuse("Wait for the current reply to finish");
+  }
+
+  switch (msg.type) {
+    case "cancel":
+      if (!client.busy) return refuse("Nothing is running");
+      // Stop means stop: drop the follow-ups too
+      client.queue = [];
+      sendQueue(client);
+      client.stop?.abort();
+      return;
+    case "permission": {
+      const settle = client.approvals.get(String(msg.id));
+      if (!settle) return refuse("No tool call is waiting for that answer");
+      if (!["allow", "deny", "always"].includes(msg.decision)) return refuse("Unknown decision");
+      return settle(msg.decision);
+    }
+    case "prompt":
+      if (typeof msg.text !== "string" || !msg.text.trim()) return refuse("Empty message");
+      if (msg.profile !== undefined && typeof msg.profile !== "string") return refuse("Unknown agent profile");
+      // only a new conversation takes it (checked when it starts); an open one keeps its own
+      if (msg.profile && !client.conversationId) client.profile = msg.profile;
+      if (!client.busy) return runTurns(client, msg.text);
+      if (msg.mode === "interject") {
+        client.queue.unshift(msg.text);
+        client.stop?.abort();
+      } else {
+        client.queue.push(msg.text);
+      }
+      return sendQueue(client);
+    case "open": {
+      const conversation = await getConversation(String(msg.id), owner);
+      if (!conversation) return refuse("Conversation not found");
+      client.conversationId = conversation.id;
+      return sendConversation(client, conversation);
+    }
+    case "new":
+      client.conversationId = undefined;
+      client.profile = undefined;
+      return;
+    case "rename":
+      if (typeof msg.title !== "string" || !msg.title.trim()) return refuse("Empty title");
+      if (!(await getConversation(String(msg.id), owner))) return refuse("Conversation not found");
+      await updateConversation(String(msg.id), { title: msg.title });
+      return sendConversations(client);
+    case "delete":
+      if (!(await getConversation(String(msg.id), owner))) return refuse("Conversation not found");
+      await deleteConversation(String(msg.id));
+      if (client.conversationId === msg.id) client.conversationId = undefined;
+      return sendConversations(client);
+    default:
+      return refuse("Unknown message type");
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Connections
+// ---------------------------------------------------------------------------
+//
+// The protocol (version, resume, heartbeat) is described in protocol.ts.
+
+// Events kept per client for a resume. Text deltas count, so this is a few
+// pages of streamed reply; past that, a resume reloads the conversation.
+const REPLAY_LIMIT = 2000;
+
+/** Handle a socket's first message: sign in as a new client, or resume one. */
+async function signIn(ws: ServerWebSocket<WSData>, msg: ClientMessage | null): Promise<void> {
+  if (msg?.type !== "auth") {
+    console.log("ws: auth failed, closing");
+    return ws.close(4401, "Invalid token");
+  }
+  if (msg.version !== PROTOCOL_VERSION) {
+    console.log(`ws: protocol ${msg.version} not supported, closing`);
+    return ws.close(4400, "Unsupported protocol version — reload the page");
+  }
+  const user = await chatUser(msg.token);
+  if (!user) {
+    console.log("ws: auth failed, closing");
+    return ws.close(4401, "Invalid token");
+  }
+
+  const previous = msg.resume ? clients.get(msg.resume) : undefined;
+  if (previous && previous.user.id === user.id) {
+    attach(previous, ws, msg.token, user);
+    console.log(`ws: ${user.name} resumed`);
+    return resume(previous, msg.after ?? 0);
+  }
+
+  const client: ChatClient = {
+    id: crypto.randomUUID(),
+    socket: null,
+    token: msg.token,
+    user,
+    busy: false,
+    approvals: new Map(),
+    queue: [],
+    seq: 0,
+    replay: [],
+  };
+  clients.set(client.id, client);
+  attach(client, ws, msg.token, user);
+  console.log(`ws: authenticated as ${user.name}`);
+  ws.sendText(JSON.stringify({ type: "auth-ok", version: PROTOCOL_VERSION, resume: client.id, resumed: false, busy: false }));
+  await sendProfiles(client);
+  await sendConversations(client);
+  await sendDocs(client);
+  await sendUsage(client, user);
+}
+
+function attach(client: ChatClient, ws: ServerWebSocket<WSData>, token: string, user: ChatUser): void {
+  clearTimeout(client.expire);
+  client.expire = undefined;
+  if (client.socket) {
+    // the old socket is most likely dead and just not noticed yet
+    client.socket.data.client = undefined;
+    client.socket.close(4409, "Resumed on another connection");
+  }
+  client.socket = ws;
+  client.token = token;
+  client.user = user;
+  ws.data.client = client;
+}
+
+/** Bring a reconnected browser up to date: the events it missed, or failing that, the current state. */
+async function resume(client: ChatClient, after: number): Promise<void> {
+  const ws = client.socket!;
+  ws.sendText(JSON.stringify({ type: "auth-ok", version: PROTOCOL_VERSION, resume: client.id, resumed: true, busy: client.busy }));
+  const first = client.replay[0]?.seq ?? client.seq + 1;
+  if (after >= client.seq || first <= after + 1) {
+    for (const event of client.replay) if (event.seq > after) ws.sendText(JSON.stringify(event));
+    return;
+  }
+  // too much was missed to replay
+  await sendProfiles(client);
+  await sendConversations(client);
+  await sendDocs(client);
+  await sendUsage(client, client.user);
+  sendQueue(client);
+  const conversation = client.conversationId ? await getConversation(client.conversationId, client.user.id) : null;
+  if (conversation) await sendConversation(client, conversation);
+}
+
+/** The socket is gone. Keep the client for a resume, then let it go as if the user had left. */
+function detach(client: ChatClient): void {
+  client.socket = null;
+  client.expire = setTimeout(() => {
+    clients.delete(client.id);
+    // nobody is left to answer — let the turn finish without the tool,
+    // and don't start follow-ups nobody will see
+    for (const settle of client.approvals.values()) settle("deny");
+    client.queue = [];
+  }, RESUME_WINDOW_MS);
+}
+
+/** The client's credential stopped working: close it for good. */
+function signOut(client: ChatClient): void {
+  clients.delete(client.id);
+  client.socket?.close(4401, "Invalid token");
+}
+
+// Ping signed-in sockets, and drop any socket, signed in or not, that has
+// been silent for two heartbeats.
+setInterval(() => {
+  const now = Date.now();
+  for (const ws of sockets) {
+    if (now - ws.data.lastSeen > 2 * HEARTBEAT_MS) ws.terminate();
+    else if (ws.data.client) ws.sendText(JSON.stringify({ type: "ping" }));
+  }
+}, HEARTBEAT_MS);
+
+// ---------------------------------------------------------------------------
+// Access log & token admin
+// ---------------------------------------------------------------------------
+
+// Caddy (see Caddyfile) reaches the server over loopback, and only its
+// X-Forwarded-For is believed: anyone else could write whatever they like
+// there. Set TRUSTED_PROXY (comma-separated) for a proxy elsewhere.
+const TRUSTED_PROXIES = new Set(
+  process.env.TRUSTED_PROXY ? process.env.TRUSTED_PROXY.split(",").map((ip) => ip.trim()) : ["127.0.0.1", "::1", "::ffff:127.0.0.1"],
+);
+
+function clientIp(req: Request, server: ReturnType<typeof Bun.serve>): string | null {
+  const peer = server.requestIP(req)?.address ?? null;
+  if (!peer || !TRUSTED_PROXIES.has(peer)) return peer;
+  // the proxy appends the address it saw; anything before that came from the client
+  return req.headers.get("x-forwarded-for")?.split(",").pop()!.trim() || peer;
+}
+
+/** Log who opened what: every request for a restricted doc or asset, and any request made with a token. */
+function audit(
+  req: Request,
+  server: ReturnType<typeof Bun.serve>,
+  slug: string,
+  token: string | null,
+  rules: AccessRules,
+  allowed: boolean,
+  restricted = isRestricted(slug, rules),
+): void {
+  if (!token && !restricted) return;
+  const t = resolveToken(token, rules);
+  void logAccess({
+    token: t?.id ?? null,
+    label: t?.label ?? (token ? "(invalid token)" : null),
+    path: new URL(req.url).pathname,
+    ip: clientIp(req, server),
+    allowed,
+  });
+}
+
+function splitList(s: string): string[] {
+  return s
+    .split(/[\n,]/)
+    .map((x) => x.trim().replace(/^\/+/, ""))
+    .filter(Boolean);
+}
+
+/** A link that opens what the token grants: the doc, its folder, or the index. */
+function shareLink(scopes: string[], token: string): string {
+  const scope = scopes[0] ?? "";
+  const target = scope.endsWith("/") ? `${slugHref(scope.slice(0, -1))}/` : scope && !/[*?[{]/.test(scope) ? slugHref(scope) : "/";
+  return `${target}?t=${encodeURIComponent(token)}`;
+}
+
+async function adminTokens(req: Request, url: URL, token: string | null, rules: AccessRules): Promise<Response> {
+  if (!hasPermission(resolveToken(token, rules), "admin")) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (req.method === "POST") {
+    // the session cookie is SameSite=Lax, but check the origin as well
+    const origin = req.headers.get("origin");
+    if (origin && origin !== url.origin && origin !== ALLOWED_ORIGIN) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const form = await req.formData();
+    const action = form.get("action");
+    let minted = "";
+    if (action === "mint") {
+      const label = String(form.get("label") ?? "").trim();
+      const scopes = splitList(String(form.get("scopes") ?? ""));
+      const level = String(form.get("permission") ?? "read");
+      const levels: Record<string, Permission[]> = {
+        read: ["read"],
+        chat: ["read", "chat"],
+        edit: ["read", "chat", "edit"],
+        admin: ["read", "chat", "edit", "admin"],
+      };
+      const permissions = levels[level] ?? levels.read;
+      const expiresDate = String(form.get("expires") ?? "");
+      const budget = budgetFrom(form);
+      if (!label) return new Response("A label is required", { status: 400 });
+      if (!budget) return new Response("Budgets must be amounts in USD", { status: 400 });
+      if (expiresDate && Number.isNaN(Date.parse(expiresDate))) return new Response("Invalid expiry date", { status: 400 });
+      // a date picker means "through the end of that day"
+      const expires = expiresDate ? new Date(`${expiresDate}T23:59:59Z`).toISOString() : undefined;
+      minted = (await mintToken({ label, scopes, permissions, expires, budget: hasBudget(budget) ? budget : undefined })).id;
+    } else if (action === "revoke") {
+      await revokeToken(String(form.get("id") ?? ""));
+    } else if (action === "restrict") {
+      await setRestricted(splitList(String(form.get("patterns") ?? "")));
+    } else {
+      return new Response("Unknown action", { status: 400 });
+    }
+    // post/redirect/get, so a reload doesn't mint a second token
+    return Response.redirect(minted ? `/admin/tokens?minted=${minted}` : "/admin/tokens", 303);
+  }
+
+  const body = adminTokensBody(rules, url.searchParams.get("minted"), await readAccessLog(100));
+  return new Response(layout("Tokens", body, { annotations: false }), {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
+
+function adminTokensBody(rules: AccessRules, minted: string | null, log: Awaited<ReturnType<typeof readAccessLog>>): string {
+  const revoked = new Set(rules.store.revoked);
+  const now = Date.now();
+
+  const rows = listTokens(rules)
+    .map((t) => {
+      const status = revoked.has(t.id)
+        ? "revoked"
+        : t.expires && Date.parse(t.expires) <= now
+          ? "expired"
+          : "active";
+      const revoke =
+        status === "revoked"
+          ? ""
+          : `<form method="post"><input type="hidden" name="action" value="revoke"><input type="hidden" name="id" value="${escapeHtml(t.id)}"><button>Revoke</button></form>`;
+      const link = status === "active" ? `<a href="${escapeHtml(shareLink(t.scopes, t.token))}">share link</a>` : "";
+      return `<tr${t.id === minted ? ` class="minted"` : ""}>
+<td>${escapeHtml(t.label)}<br><code>${escapeHtml(t.id)}</code></td>
+<td>${t.scopes.map((sc) => `<code>${escapeHtml(sc)}</code>`).join(" ") || "&mdash;"}</td>
+<td>${escapeHtml(t.permissions.join(", "))}${hasPermission(t, "chat") && t.budget && hasBudget(t.budget) ? `<br>${formatBudget(t.budget)}` : ""}</td>
+<td>${t.expires ? formatDate(new Date(t.expires)) : "never"}</td>
+<td class="status-${status}">${status}</td>
+<td>${link}</td>
+<td>${revoke}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  const logRows = log
+    .map(
+      (e) =>
+        `<tr><td>${escapeHtml(new Date(e.time).toLocaleString("en-US"))}</td><td>${escapeHtml(e.label ?? "anonymous")}${e.token ? ` <code>${escapeHtml(e.token)}</code>` : ""}</td><td><code>${escapeHtml(e.path)}</code></td><td>${escapeHtml(e.ip ?? "")}</td><td>${e.allowed ? "allowed" : "denied"}</td></tr>`
+    )
+    .join("\n");
+
+  return `<a class="back" href="/">&larr; Back</a>
+<h1>Share tokens</h1>
+<p><a href="/admin/usage">Chat usage &rarr;</a></p>
+<div class="article admin">
+<h2>Mint a token</h2>
+<form method="post" class="admin-form">
+<input type="hidden" name="action" value="mint">
+<label>Label <input name="label" required placeholder="Who is this for?"></label>
+<label>Scopes <textarea name="scopes" rows="2" placeholder="one per line: notes, projects/alpha/, reports/**"></textarea></label>
+<label>Permission <select name="permission"><option value="read">read only</option><option value="chat">read + chat</option><option value="edit">read + chat + edit</option><option value="admin">admin</option></select></label>
+<label>Expires <input type="date" name="expires"></label>
+<label>Daily chat budget (USD) <input type="number" name="daily" min="0" step="0.01" placeholder="${budgetPlaceholder(DEFAULT_BUDGET.daily)}"></label>
+<label>Monthly chat budget (USD) <input type="number" name="monthly" min="0" step="0.01" placeholder="${budgetPlaceholder(DEFAULT_BUDGET.monthly)}"></label>
+<button>Mint token</button>
+</form>
+
+<h2>Tokens</h2>
+<table>
+<thead><tr><th>Label</th><th>Scopes</th><th>Permissions</th><th>Expires</th><th>Status</th><th></th><th></th></tr></thead>
+<tbody>
+${rows || `<tr><td colspan="7">No tokens yet.</td></tr>`}
+</tbody>
+</table>
+
+<h2>Restricted documents</h2>
+<p>Documents matching these patterns need a token whose scope covers them. Documents listed in <code>docs/.access.json</code> are restricted too.</p>
+<form method="post" class="admin-form">
+<input type="hidden" name="action" value="restrict">
+<textarea name="patterns" rows="4" placeholder="one per line: private/, drafts/**, budget">${escapeHtml(rules.store.restricted.join("\n"))}</textarea>
+<button>Save</button>
+</form>
+
+<h2>Recent access</h2>
+<table>
+<thead><tr><th>Time</th><th>Who</th><th>Path</th><th>IP</th><th></th></tr></thead>
+<tbody>
+${logRows || `<tr><td colspan="5">Nothing logged yet.</td></tr>`}
+</tbody>
+</table>
+</div>`;
+}
+
+// ---------------------------------------------------------------------------
+// Chat usage & budgets
+// ---------------------------------------------------------------------------
+
+/** Daily and monthly limits from a form; blank means none of its own. Null if one isn't an amount. */
+function budgetFrom(form: FormData): Budget | null {
+  const budget: Budget = {};
+  for (const key of ["daily", "monthly"] as const) {
+    const raw = String(form.get(key) ?? "").trim();
+    if (!raw) continue;
+    const usd = Number(raw);
+    if (!Number.isFinite(usd) || usd < 0) return null;
+    budget[key] = usd;
+  }
+  return budget;
+}
+
+function hasBudget(budget: Budget): boolean {
+  return budget.daily !== undefined || budget.monthly !== undefined;
+}
+
+function formatUsd(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+function budgetPlaceholder(usd: number | undefined): string {
+  return usd === undefined ? "no limit" : `default ${formatUsd(usd)}`;
+}
+
+/** "$5.00/day · $50.00/month" */
+function formatBudget(budget: Budget): string {
+  const parts: string[] = [];
+  if (budget.daily !== undefined) parts.push(`${formatUsd(budget.daily)}/day`);
+  if (budget.monthly !== undefined) parts.push(`${formatUsd(budget.monthly)}/month`);
+  return parts.join(" &middot; ") || "no limit";
+}
+
+async function adminUsage(req: Request, url: URL, token: string | null, rules: AccessRules): Promise<Response> {
+  if (!hasPermission(resolveToken(token, rules), "admin")) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (req.method === "POST") {
+    const origin = req.headers.get("origin");
+    if (origin && origin !== url.origin && origin !== ALLOWED_ORIGIN) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const form = await req.formData();
+    if (form.get("action") !== "budget") return new Response("Unknown action", { status: 400 });
+    const budget = budgetFrom(form);
+    if (!budget) return new Response("Budgets must be amounts in USD", { status: 400 });
+    if (!(await setBudget(String(form.get("id") ?? ""), budget))) return new Response("Unknown token", { status: 400 });
+    return Response.redirect("/admin/usage", 303);
+  }
+
+  const body = adminUsageBody(rules, await usageByUser());
+  return new Response(layout("Chat usage", body, { annotations: false }), {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
+
+function adminUsageBody(rules: AccessRules, usage: Awaited<ReturnType<typeof usageByUser>>): string {
+  // everyone who can chat, whether or not they have yet, plus anyone who has
+  // spent something under a token that's since gone
+  const revoked = new Set(rules.store.revoked);
+  const tokens = listTokens(rules).filter((t) => hasPermission(t, "chat") && !revoked.has(t.id));
+  const users = new Map<string, { name: string; budget: Budget; editable: boolean }>();
+  if (WS_TOKEN) users.set(DEFAULT_OWNER, { name: "owner (WS_TOKEN)", budget: DEFAULT_BUDGET, editable: false });
+  for (const t of tokens) {
+    const budget = { daily: t.budget?.daily ?? DEFAULT_BUDGET.daily, monthly: t.budget?.monthly ?? DEFAULT_BUDGET.monthly };
+    users.set(t.id, { name: t.label, budget, editable: true });
+  }
+  const spent = new Map(usage.map((u) => [u.user, u]));
+  for (const u of usage) {
+    if (!users.has(u.user)) users.set(u.user, { name: u.name, budget: {}, editable: false });
+  }
+
+  const rows = [...users]
+    .sort(([a], [b]) => (spent.get(b)?.month ?? 0) - (spent.get(a)?.month ?? 0))
+    .map(([id, user]) => {
+      const u = spent.get(id);
+      const own = rules.store.tokens.find((t) => t.id === id)?.budget;
+      const budget = user.editable
+        ? `<form method="post" class="budget-form"><input type="hidden" name="action" value="budget"><input type="hidden" name="id" value="${escapeHtml(id)}"><input type="number" name="daily" min="0" step="0.01" value="${own?.daily ?? ""}" placeholder="${budgetPlaceholder(DEFAULT_BUDGET.daily)}" aria-label="Daily budget"> / day <input type="number" name="monthly" min="0" step="0.01" value="${own?.monthly ?? ""}" placeholder="${budgetPlaceholder(DEFAULT_BUDGET.monthly)}" aria-label="Monthly budget"> / month <button>Save</button></form>`
+        : formatBudget(user.budget);
+      return `<tr>
+<td>${escapeHtml(user.name)}<br><code>${escapeHtml(id)}</code></td>
+<td class="num">${formatUsd(u?.today ?? 0)}</td>
+<td class="num">${formatUsd(u?.month ?? 0)}</td>
+<td class="num">${formatUsd(u?.total ?? 0)}</td>
+<td class="num">${u?.turns ?? 0}</td>
+<td>${u ? formatDate(new Date(u.last)) : "&mdash;"}</td>
+<td>${budget}</td>
+</tr>`;
+    })
+    .join("\n");
+
+  return `<a class="back" href="/admin/tokens">&larr; Tokens</a>
+<h1>Chat usage</h1>
+<div class="article admin">
+<p>Spend per chat user, from the cost the agent reports for each turn. Days and months are UTC. A user who reaches a budget can't start another turn until it resets; a blank budget uses the server default.</p>
+<table>
+<thead><tr><th>User</th><th>Today</th><th>This month</th><th>All time</th><th>Turns</th><th>Last used</th><th>Budget</th></tr></thead>
+<tbody>
+${rows || `<tr><td colspan="7">Nobody can chat yet.</td></tr>`}
+</tbody>
+</table>
+</div>`;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP caching
+// ---------------------------------------------------------------------------
+
+interface RenderedPage {
+  mtimeMs: number;
+  size: number;
+  links: string; // the link graph's version it was rendered against
+  chat: boolean; // whether it links to the chat
+  html: string; // with BACKLINKS where the viewer's backlinks go
+  etag: string;
+}
+
+// Rendered document pages, keyed by resolved path + slug (the same file can be
+// reachable under two slugs via symlinks, and breadcrumbs and image paths
+// depend on the slug). An entry is only reused while the file's mtime and
+// size are unchanged. Access is checked before the cache is consulted, and
+// nothing token-specific is ever cached.
+const RENDER_CACHE_SIZE = Number(process.env.RENDER_CACHE_SIZE) || 200;
+const renderCache = createLru<RenderedPage>(RENDER_CACHE_SIZE);
+
+function etagFor(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function notModified(req: Request, etag: string, lastModified?: Date): boolean {
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch !== null) {
+    // If-None-Match wins over If-Modified-Since when both are sent
+    return ifNoneMatch.split(",").some((t) => {
+      const tag = t.trim().replace(/^W\//, "");
+      return tag === etag || tag === "*";
+    });
+  }
+  const ifModifiedSince = req.headers.get("if-modified-since");
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have one-second resolution
+    return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+interface HtmlResponseOptions {
+  etag?: string;
+  lastModified?: Date;
+  /** Depends on the viewer's token: keep it out of shared caches. */
+  restricted?: boolean;
+  /** Shows a document: send DOC_CSP with it. */
+  csp?: boolean;
+}
+
+/**
+ * An HTML page with a strong ETag and Last-Modified. Browsers revalidate on
+ * every load (`no-cache`) and get a bodiless 304 when nothing changed.
+ */
+function htmlResponse(req: Request, html: string, opts: HtmlResponseOptions = {}): Response {
+  const etag = opts.etag ?? etagFor(html);
+  const headers: Record<string, string> = {
+    "Content-Type": "text/html; charset=utf-8",
+    ETag: etag,
+    "Cache-Control": opts.restricted ? "private, no-cache" : "no-cache",
+  };
+  if (opts.lastModified) headers["Last-Modified"] = opts.lastModified.toUTCString();
+  if (opts.csp) headers["Content-Security-Policy"] = DOC_CSP;
+
+  if (notModified(req, etag, opts.lastModified)) {
+    return new Response(null, { status: 304, headers });
+  }
+  return new Response(html, { headers });
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace every local <img> with a data: URI so the page works as a single
+ * file. Paths resolve the same way the asset route resolves them; remote
+ * images, and local ones the viewer may not fetch, are left as they were.
+ */
+async function inlineImages(html: string, dir: string, canRead: (asset: string) => boolean): Promise<string> {
+  const IMG_SRC = /(<img\b[^>]*?\ssrc=")([^"]*)(")/gi;
+  const dataUris = new Map<string, string>();
+
+  for (const [, , src] of html.matchAll(IMG_SRC)) {
+    if (dataUris.has(src)) continue;
+    const rel = assetPath(src, dir);
+    if (!rel || assetExt(rel) === ".pdf" || !canRead(rel)) continue;
+    try {
+      const data = await readFile(await resolveInDocs(rel));
+      dataUris.set(src, `data:${ASSET_EXT[assetExt(rel)]};base64,${data.toString("base64")}`);
+    } catch {
+      // missing or outside docs/ — leave the reference as it was
+    }
+  }
+
+  return html.replace(IMG_SRC, (whole, open, src, close) =>
+    dataUris.has(src) ? open + dataUris.get(src) + close : whole
+  );
+}
+
+/** The document as one self-contained HTML file: inline CSS, images and math, no scripts. */
+async function exportPage(
+  slug: string,
+  resolved: string,
+  index: DocIndex,
+  canRead: (asset: string) => boolean,
+  print = false,
+): Promise<string> {
+  const { meta, html } = await renderDoc(slug, resolved, index);
+  const article = await inlineImages(html, slugDir(slug), canRead);
+  return layout(meta.title ?? slug, `<article class="article">\n${article}\n</article>`, { annotations: false, print });
+}
+
+function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+// Chromium takes a few seconds per PDF; reuse them while the page is unchanged.
+const pdfCache = createLru<Uint8Array<ArrayBuffer>>(20);
+
+// ---------------------------------------------------------------------------
+// Backlinks & graph
+// ---------------------------------------------------------------------------
+//
+// Both come from the link graph (links.ts), filtered per viewer: a doc the
+// viewer can't open never shows up, as a backlink, a node or an edge. Drafts
+// stay out too, as they do on the index.
+
+// Where a document page's backlinks go; filled in per request.
+const BACKLINKS = "<!-- backlinks -->";
+
+function visibleBacklinks(graph: LinkGraph, slug: string, token: string | null, rules: AccessRules): DocEntry[] {
+  return backlinks(graph, slug).filter((d) => !d.meta.draft && canAccess(d.slug, token, rules));
+}
+
+function renderBacklinks(docs: DocEntry[]): string {
+  if (docs.length === 0) return "";
+  const items = docs.map((d) => `<li><a href="${slugHref(d.slug)}">${escapeHtml(d.name)}</a></li>`).join("\n");
+  return `<section class="backlinks">\n<h2>Linked from</h2>\n<ul>\n${items}\n</ul>\n</section>`;
+}
+
+/** The part of the graph the viewer may see: nodes by slug, and edges between them. */
+function visibleGraph(graph: LinkGraph, token: string | null, rules: AccessRules) {
+  const nodes = graph.docs.filter((d) => !d.meta.draft && canAccess(d.slug, token, rules));
+  const shown = new Set(nodes.map((d) => d.slug));
+  const edges = nodes.flatMap((d) => [...(graph.links.get(d.slug) ?? [])].filter((to) => shown.has(to)).map((to) => [d.slug, to]));
+  return { nodes: nodes.map((d) => ({ slug: d.slug, name: d.name, url: slugHref(d.slug) })), edges };
+}
+
+function graphBody(graph: ReturnType<typeof visibleGraph>): string {
+  const names = new Map(graph.nodes.map((n) => [n.slug, n.name]));
+  const list = graph.nodes
+    .map((n) => {
+      const out = graph.edges.filter(([from]) => from === n.slug).map(([, to]) => `<a href="${slugHref(to)}">${escapeHtml(names.get(to)!)}</a>`);
+      return `<li><a href="${n.url}">${escapeHtml(n.name)}</a>${out.length ? ` &rarr; ${out.join(", ")}` : ""}</li>`;
+    })
+    .join("\n");
+  return `<a class="back" href="/">&larr; Back</a>
+<h1>Link graph</h1>
+<p class="meta">${graph.nodes.length} documents, ${graph.edges.length} links. Drag to move a document; click to open it.</p>
+<svg id="graph" class="graph" role="img" aria-label="Documents and the links between them"></svg>
+<details class="graph-list"><summary>As a list</summary>
+<ul>
+${list}
+</ul>
+</details>
+${graphScript(graph)}`;
+}
+
+// A small force layout: documents repel each other, links pull them together,
+// and a little gravity keeps everything on screen. It settles in a few
+// hundred steps; dragging a document wakes it up again.
+function graphScript(graph: ReturnType<typeof visibleGraph>): string {
+  return `<script>
+(() => {
+  const data = ${scriptJson(graph)};
+  const svg = document.getElementById("graph");
+  const NS = "http://www.w3.org/2000/svg";
+  const W = 1000, H = 700;
+  svg.setAttribute("viewBox", "0 0 " + W + " " + H);
+  const byId = new Map();
+  const nodes = data.nodes.map((n, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(data.nodes.length, 1);
+    const node = { ...n, x: W / 2 + 200 * Math.cos(angle), y: H / 2 + 200 * Math.sin(angle), vx: 0, vy: 0, degree: 0 };
+    byId.set(n.slug, node);
+    return node;
+  });
+  const edges = data.edges.map(([a, b]) => ({ a: byId.get(a), b: byId.get(b) }));
+  for (const e of edges) { e.a.degree++; e.b.degree++; }
+
+  const el = (name, attrs, parent) => {
+    const e = document.createElementNS(NS, name);
+    for (const k in attrs) e.setAttribute(k, attrs[k]);
+    parent.appendChild(e);
+    return e;
+  };
+  const lines = edges.map(() => el("line", { class: "edge" }, svg));
+  const groups = nodes.map((n) => {
+    const link = el("a", { href: n.url, class: "node" }, svg);
+    el("circle", { r: 5 + Math.min(n.degree, 10) }, link);
+    el("text", { x: 12 + Math.min(n.degree, 10), y: 4 }, link).textContent = n.name;
+    return link;
+  });
+
+  function draw() {
+    edges.forEach((e, i) => {
+      lines[i].setAttribute("x1", e.a.x); lines[i].setAttribute("y1", e.a.y);
+      lines[i].setAttribute("x2", e.b.x); lines[i].setAttribute("y2", e.b.y);
+    });
+    nodes.forEach((n, i) => groups[i].setAttribute("transform", "translate(" + n.x + "," + n.y + ")"));
+  }
+
+  let heat = 1, dragged = null, moved = false;
+  function step() {
+    for (const a of nodes) {
+      for (const b of nodes) {
+        if (a === b) continue;
+        const dx = a.x - b.x, dy = a.y - b.y;
+        const d2 = Math.max(dx * dx + dy * dy, 25);
+        a.vx += (dx / d2) * 100; a.vy += (dy / d2) * 100;
+      }
+      a.vx += (W / 2 - a.x) * 0.01; a.vy += (H / 2 - a.y) * 0.01;
+    }
+    for (const e of edges) {
+      const dx = e.b.x - e.a.x, dy = e.b.y - e.a.y;
+      e.a.vx += dx * 0.02; e.a.vy += dy * 0.02;
+      e.b.vx -= dx * 0.02; e.b.vy -= dy * 0.02;
+    }
+    for (const n of nodes) {
+      if (n === dragged) continue;
+      n.x = Math.min(W - 20, Math.max(20, n.x + n.vx * heat));
+      n.y = Math.min(H - 20, Math.max(20, n.y + n.vy * heat));
+      n.vx *= 0.5; n.vy *= 0.5;
+    }
+    draw();
+    heat *= 0.99;
+    if (heat > 0.02) requestAnimationFrame(step);
+  }
+  function wake() {
+    const asleep = heat <= 0.02;
+    heat = Math.max(heat, 0.5);
+    if (asleep) requestAnimationFrame(step);
+  }
+
+  function point(e) {
+    const p = svg.createSVGPoint();
+    p.x = e.clientX; p.y = e.clientY;
+    return p.matrixTransform(svg.getScreenCTM().inverse());
+  }
+  groups.forEach((g, i) => {
+    g.addEventListener("pointerdown", (e) => { dragged = nodes[i]; moved = false; g.setPointerCapture(e.pointerId); });
+    g.addEventListener("pointermove", (e) => {
+      if (dragged !== nodes[i]) return;
+      const p = point(e);
+      dragged.x = p.x; dragged.y = p.y;
+      moved = true;
+      wake();
+    });
+    g.addEventListener("pointerup", () => { dragged = null; });
+    // a drag isn't a click
+    g.addEventListener("click", (e) => { if (moved) e.preventDefault(); });
+  });
+  draw();
+  requestAnimationFrame(step);
+})();
+</script>`;
+}
+
+// ---------------------------------------------------------------------------
+// Revision history
+// ---------------------------------------------------------------------------
+//
+// Agent edits are recorded as they happen (see runPrompt). Everything else
+// shows up as a watcher event; a doc is recorded once it has been quiet for
+// a moment, so an editor saving in several writes makes one revision, and a
+// change the agent made is already recorded by then.
+
+const REVISION_QUIET_MS = 1000;
+const DIFF_CONTEXT = 3; // unchanged lines shown around each change
+
+const pendingRevisions = new Map<string, ReturnType<typeof setTimeout>>();
+
+subscribe((event) => {
+  if (event.type === "index-changed") return;
+  clearTimeout(pendingRevisions.get(event.slug));
+  pendingRevisions.set(
+    event.slug,
+    setTimeout(() => {
+      pendingRevisions.delete(event.slug);
+      recordRevision(event.slug, { kind: "human" }).catch(() => {});
+    }, REVISION_QUIET_MS),
+  );
+});
+// what changed while the server was down, and docs from before there was history
+recordAll({ kind: "human" }).catch((err) => console.error("revisions: startup scan:", err));
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  const time = d.toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit" });
+  return `<time datetime="${d.toISOString()}">${time}</time>`;
+}
+
+/** "Agent for Alice · chat", or who edited by hand. */
+function describeAuthor(author: Author, chat: boolean): string {
+  let who: string;
+  if (author.kind === "agent") {
+    who = `Agent${author.user ? ` for ${escapeHtml(author.user)}` : ""}`;
+    if (author.conversation && chat) who += ` &middot; <a href="/chat#${encodeURIComponent(author.conversation)}">chat</a>`;
+  } else {
+    who = author.user ? escapeHtml(author.user) : "Edited outside the chat";
+  }
+  return author.note ? `${who}<br><span class="meta">${escapeHtml(author.note)}</span>` : who;
+}
+
+/** /:slug/history: the list, a revision (?rev=), a diff (?a=&b=), and restoring a revision (POST, admin only). */
+async function docHistory(req: Request, url: URL, slug: string, token: string | null, rules: AccessRules): Promise<Response> {
+  const revisions = await listRevisions(slug);
+  if (revisions.length === 0) {
+    return new Response("Not found", { status: 404 });
+  }
+  const viewer = resolveToken(token, rules);
+  const admin = hasPermission(viewer, "admin");
+  const find = (id: string | null) => revisions.find((r) => r.id === id);
+  const chat = chatEnabled(rules);
+
+  if (req.method === "POST") {
+    if (!admin) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    const origin = req.headers.get("origin");
+    if (origin && origin !== url.origin && origin !== ALLOWED_ORIGIN) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const form = await req.formData();
+    const revision = find(String(form.get("rev") ?? ""));
+    const content = revision && (await readRevision(slug, revision.id));
+    if (!revision || content == null) return new Response("No such revision", { status: 400 });
+    try {
+      await writeDoc(slug, content);
+    } catch (err) {
+      console.error(`history: restoring ${slug}:`, err);
+      return new Response("Restore failed", { status: 500 });
+    }
+    const note = `Restored the version of ${new Date(revision.time).toUTCString()}`;
+    await recordRevision(slug, { kind: "human", user: viewer!.label, note }).catch(() => {});
+    return Response.redirect(`${slugHref(slug)}/history`, 303);
+  }
+
+  const restricted = isRestricted(slug, rules) || admin; // admins get a restore button
+  const title = slug.split("/").pop()!;
+  const back = `${breadcrumbs(slug)}\n`;
+  const historyHref = `${slugHref(slug)}/history`;
+
+  const rev = url.searchParams.get("rev");
+  if (rev !== null) {
+    const revision = find(rev);
+    if (!revision) return new Response("No such revision", { status: 404 });
+    const latest = revisions[0];
+    const links = [`<a href="${historyHref}">History</a>`];
+    if (revision !== latest) links.push(`<a href="${historyHref}?a=${encodeURIComponent(revision.id)}&amp;b=${encodeURIComponent(latest.id)}">Compare with the latest</a>`);
+    const restore =
+      admin && revision !== latest && !revision.deleted
+        ? `<form method="post" class="restore admin"><input type="hidden" name="rev" value="${escapeHtml(revision.id)}"><button>Restore this version</button></form>\n`
+        : "";
+    let article = "<p>The document was deleted in this revision.</p>";
+    if (!revision.deleted) {
+      const { index } = await linkGraph(rules);
+      const { html } = await renderMarkdown(slug, (await readRevision(slug, revision.id)) ?? "", index);
+      article = `<article class="article">\n${html}\n</article>`;
+    }
+    const body = `${back}<div class="revision-note"><p>${revision === latest ? "Latest version" : "Version"} of ${formatTime(revision.time)} &middot; ${describeAuthor(revision.author, chat)}</p><p>${links.join(" &middot; ")}</p>\n${restore}</div>\n${article}`;
+    return htmlResponse(req, layout(`${title} (history)`, body, { annotations: false }), { restricted, csp: true });
+  }
+
+  const a = url.searchParams.get("a");
+  const b = url.searchParams.get("b");
+  if (a !== null || b !== null) {
+    const from = find(a);
+    const to = find(b) ?? revisions[0];
+    if (!from) return new Response("No such revision", { status: 404 });
+    const [older, newer] = from.time <= to.time ? [from, to] : [to, from];
+    const diff = diffLines((await readRevision(slug, older.id)) ?? "", (await readRevision(slug, newer.id)) ?? "");
+    const side = (r: Revision) => `<a href="${historyHref}?rev=${encodeURIComponent(r.id)}">${formatTime(r.time)}</a> (${describeAuthor(r.author, chat)})`;
+    const body = `${back}<h1>Changes</h1>
+<p class="revision-note">From ${side(older)}<br>to ${side(newer)} &middot; <a href="${historyHref}">History</a></p>
+${renderDiff(diff)}`;
+    return htmlResponse(req, layout(`${title} (changes)`, body, { annotations: false }), { restricted });
+  }
+
+  const rows = revisions
+    .map((r, i) => {
+      const previous = revisions[i + 1];
+      const changes = previous
+        ? ` &middot; <a href="${historyHref}?a=${encodeURIComponent(previous.id)}&amp;b=${encodeURIComponent(r.id)}">Changes</a>`
+        : "";
+      const id = escapeHtml(r.id);
+      return `<tr>
+<td><input type="radio" name="a" value="${id}" aria-label="Compare from"${i === 1 ? " checked" : ""}> <input type="radio" name="b" value="${id}" aria-label="Compare to"${i === 0 ? " checked" : ""}></td>
+<td>${formatTime(r.time)}${r.deleted ? ` <span class="draft">Deleted</span>` : ""}</td>
+<td>${describeAuthor(r.author, chat)}</td>
+<td><a href="${historyHref}?rev=${encodeURIComponent(r.id)}">View</a>${changes}</td>
+</tr>`;
+    })
+    .join("\n");
+  const compare = revisions.length > 1 ? `<button>Compare selected</button>\n` : "";
+  const body = `${back}<h1>History</h1>
+<form method="get" class="article admin history">
+<table>
+<thead><tr><th>From / to</th><th>When</th><th>By</th><th></th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${compare}</form>`;
+  return htmlResponse(req, layout(`${title} (history)`, body, { live: "index", annotations: false }), { restricted });
+}
+
+/** A line diff as a table: each change with a few lines around it, the rest folded away. */
+function renderDiff(diff: DiffLine[]): string {
+  const shown = new Uint8Array(diff.length);
+  diff.forEach((line, i) => {
+    if (line.op === "same") return;
+    for (let j = Math.max(0, i - DIFF_CONTEXT); j <= Math.min(diff.length - 1, i + DIFF_CONTEXT); j++) shown[j] = 1;
+  });
+  if (!shown.includes(1)) return "<p>No changes.</p>";
+
+  const rows: string[] = [];
+  diff.forEach((line, i) => {
+    if (!shown[i]) {
+      if (i === 0 || shown[i - 1]) rows.push(`<tr class="fold"><td colspan="3">&hellip;</td></tr>`);
+      return;
+    }
+    const mark = line.op === "add" ? "+" : line.op === "del" ? "-" : " ";
+    rows.push(`<tr class="${line.op}"><td class="ln">${line.a ?? ""}</td><td class="ln">${line.b ?? ""}</td><td><code>${mark} ${escapeHtml(line.text)}</code></td></tr>`);
+  });
+  return `<table class="diff">\n<tbody>\n${rows.join("\n")}\n</tbody>\n</table>`;
+}
+
+// ---------------------------------------------------------------------------
+// Editing
+// ---------------------------------------------------------------------------
+//
+// /:slug/edit is a split-pane editor: the source on the left, and on the right
+// the preview, rendered by the server exactly as the page will be. Saving is
+// a PUT with If-Match: the ETag of the source the editor started from. If the
+// file changed since (the agent, another editor, someone on the server), the
+// save is refused with 412 and the current source, so nothing is overwritten
+// without the user choosing to.
+
+const MAX_DOC_BYTES = 1024 * 1024;
+
+// Top-level names the server's own routes use, and the last parts of a slug
+// that would collide with /:slug/history and /:slug/edit.
+const RESERVED_FOLDERS = ["admin", "api", "chat", "events", "graph", "logout", "new", "search", "tags", "ws"];
+const RESERVED_NAMES = ["edit", "history"];
+
+/** Whether a doc's slug collides with the server's own routes, which are matched first. */
+function isReservedSlug(slug: string): boolean {
+  const parts = slug.toLowerCase().split("/");
+  return RESERVED_FOLDERS.includes(parts[0]) || RESERVED_NAMES.includes(parts[parts.length - 1]);
+}
+
+// /new refuses these names, but a doc can still arrive on disk or from the
+// agent. Its page may be unreachable, so say so whenever one turns up.
+function warnIfReserved(slug: string): void {
+  if (isReservedSlug(slug)) console.warn(`docs/${slug}.md is named like one of the server's own routes and may not be reachable: rename it`);
+}
+
+subscribe((event) => {
+  if (event.type === "doc-changed") warnIfReserved(event.slug);
+});
+listDocs().then(
+  (docs) => docs.forEach((d) => warnIfReserved(d.slug)),
+  () => {},
+);
+
+/** Why a slug can't name a new document, or null if it can. */
+function slugError(slug: string): string | null {
+  if (!slug) return "Give the document a name";
+  const parts = slug.split("/");
+  if (slug.length > 200) return "That name is too long";
+  if (!isValidPath(`${slug}.md`) || !parts.every((p) => /^[\p{L}\p{N}][\p{L}\p{N} _.-]*$/u.test(p))) {
+    return "Use letters, digits, spaces, dots, dashes and underscores, with / between folders";
+  }
+  if (parts.length > 1 && RESERVED_FOLDERS.includes(parts[0].toLowerCase())) return `"${parts[0]}/" is used by the server`;
+  if (parts.length === 1 && RESERVED_FOLDERS.includes(slug.toLowerCase())) return `"${slug}" is used by the server`;
+  if (RESERVED_NAMES.includes(parts[parts.length - 1].toLowerCase())) return `A document can't be called "${parts[parts.length - 1]}"`;
+  if (/\.(md|html|pdf)$/i.test(slug)) return "Leave out the extension";
+  return null;
+}
+
+/** Cookie sessions make these requests, so like the admin pages, refuse other sites' forms. */
+function crossOrigin(req: Request, url: URL): boolean {
+  const origin = req.headers.get("origin");
+  return !!origin && origin !== url.origin && origin !== ALLOWED_ORIGIN;
+}
+
+/** JSON in a <script>, safe from a "</script>" in the content. */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+/** /:slug/edit: the editor (GET), the preview (POST ?preview) and saving (PUT). */
+async function docEditor(req: Request, url: URL, slug: string, token: string | null, rules: AccessRules): Promise<Response> {
+  if (!canEdit(slug, token, rules)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  if (req.method !== "GET" && req.method !== "HEAD" && crossOrigin(req, url)) {
+    return new Response("Forbidden", { status: 403 });
+  }
+  let resolved: string;
+  try {
+    resolved = await resolveInDocs(`${slug}.md`);
+  } catch {
+    const create = `/new?slug=${encodeURIComponent(slug)}`;
+    return new Response(layout("Not Found", `<h1>404</h1><p>There's no such document. <a href="${create}">Create it</a>?</p>`), {
+      status: 404,
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  if (req.method === "POST" && url.searchParams.has("preview")) {
+    const md = await req.text();
+    if (md.length > MAX_DOC_BYTES) return new Response("Too large", { status: 413 });
+    const { html } = await renderMarkdown(slug, md, (await linkGraph(rules)).index);
+    return new Response(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store", "Content-Security-Policy": DOC_CSP },
+    });
+  }
+
+  if (req.method === "PUT") {
+    const expected = req.headers.get("if-match");
+    if (!expected) return new Response("Saving needs If-Match: the ETag the edit started from", { status: 428 });
+    const md = await req.text();
+    if (md.length > MAX_DOC_BYTES) return new Response("Too large", { status: 413 });
+    // checked and written in the revisions queue, so two saves from the
+    // same version can't both pass the check
+    let refused: Response | null;
+    try {
+      refused = await queueSave(async () => {
+        const current = await readFile(resolved, "utf-8");
+        const etag = etagFor(current);
+        if (expected !== "*" && !expected.split(",").some((t) => t.trim() === etag)) {
+          return Response.json({ etag, content: current }, { status: 412, headers: { ETag: etag } });
+        }
+        // HTML already in the document stays; new HTML needs an admin
+        if (!hasPermission(resolveToken(token, rules), "admin")) {
+          const existing = rawHtml(current);
+          if ([...rawHtml(md)].some((html) => !existing.has(html))) {
+            return new Response("raw HTML can only be added with an admin token", { status: 422 });
+          }
+        }
+        await writeDoc(slug, md);
+        return null;
+      });
+    } catch (err) {
+      console.error(`edit: saving ${slug}:`, err);
+      return new Response("Saving failed", { status: 500 });
+    }
+    if (refused) return refused;
+    await recordRevision(slug, { kind: "human", user: resolveToken(token, rules)!.label }).catch(() => {});
+    return Response.json({ etag: etagFor(md) }, { headers: { ETag: etagFor(md) } });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, PUT, POST" } });
+  }
+  const md = await readFile(resolved, "utf-8");
+  const { meta, html } = await renderMarkdown(slug, md, (await linkGraph(rules)).index);
+  const body = `${breadcrumbs(slug, meta.title)}
+<div class="editor-bar"><button id="save">Save</button> <span id="edit-status" class="meta">Saved</span> <a href="${slugHref(slug)}">View</a> &middot; <a href="${slugHref(slug)}/history">History</a></div>
+<div id="conflict" class="conflict" hidden>This document changed since you started editing it. <button id="overwrite">Save mine anyway</button> <button id="theirs">Discard mine, load theirs</button></div>
+<div class="editor">
+<textarea id="source" spellcheck="true" aria-label="Markdown source" data-etag="${escapeHtml(etagFor(md))}">${escapeHtml(md)}</textarea>
+<article class="article" id="preview">
+${html}
+</article>
+</div>
+${EDITOR_SCRIPT}`;
+  return new Response(layout(`Edit ${meta.title ?? slug}`, body, { annotations: false, wide: true }), {
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store", "Content-Security-Policy": DOC_CSP },
+  });
+}
+
+// Previews are re-rendered a moment after typing stops; Ctrl/Cmd+S saves.
+// The ETag the edit started from is on the textarea.
+const EDITOR_SCRIPT = `<script>
+(() => {
+  const source = document.getElementById("source");
+  const preview = document.getElementById("preview");
+  const status = document.getElementById("edit-status");
+  const save = document.getElementById("save");
+  const conflict = document.getElementById("conflict");
+  let etag = source.dataset.etag;
+  let saved = source.value;
+  let theirs = null; // the server's copy, after a refused save
+  let timer = null;
+
+  const dirty = () => source.value !== saved;
+  const showState = () => { status.textContent = dirty() ? "Unsaved changes" : "Saved"; };
+
+  async function refreshPreview() {
+    const text = source.value;
+    try {
+      const res = await fetch(location.pathname + "?preview", { method: "POST", body: text, headers: { "Content-Type": "text/markdown" } });
+      if (res.ok && source.value === text) preview.innerHTML = await res.text();
+    } catch {
+      // offline for a moment; the next keystroke tries again
+    }
+  }
+
+  async function doSave(ifMatch) {
+    const text = source.value;
+    save.disabled = true;
+    status.textContent = "Saving...";
+    try {
+      const res = await fetch(location.pathname, { method: "PUT", body: text, headers: { "Content-Type": "text/markdown", "If-Match": ifMatch } });
+      if (res.status === 412) {
+        theirs = await res.json();
+        conflict.hidden = false;
+        status.textContent = "Not saved";
+        return;
+      }
+      if (!res.ok) {
+        status.textContent = "Not saved: " + (await res.text());
+        return;
+      }
+      etag = (await res.json()).etag;
+      saved = text;
+      theirs = null;
+      conflict.hidden = true;
+      showState();
+    } catch {
+      status.textContent = "Not saved: the server can't be reached";
+    } finally {
+      save.disabled = false;
+    }
+  }
+
+  source.addEventListener("input", () => {
+    showState();
+    clearTimeout(timer);
+    timer = setTimeout(refreshPreview, 300);
+  });
+  save.addEventListener("click", () => doSave(etag));
+  document.addEventListener("keydown", (e) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "s") {
+      e.preventDefault();
+      doSave(etag);
+    }
+  });
+  // still guarded: only over the version just seen, not whatever comes next
+  document.getElementById("overwrite").addEventListener("click", () => doSave(theirs.etag));
+  document.getElementById("theirs").addEventListener("click", () => {
+    source.value = saved = theirs.content;
+    etag = theirs.etag;
+    theirs = null;
+    conflict.hidden = true;
+    showState();
+    refreshPreview();
+  });
+  window.addEventListener("beforeunload", (e) => {
+    if (dirty()) e.preventDefault();
+  });
+})();
+</script>`;
+
+/** The 'sha256-…' source that lets one of our inline scripts run. */
+function scriptHash(script: string): string {
+  const code = script.slice(script.indexOf(">") + 1, script.lastIndexOf("</script>"));
+  return `'sha256-${createHash("sha256").update(code).digest("base64")}'`;
+}
+
+// Sent with every page that shows a document, and with the editor's
+// previews. Only our own inline scripts and Hypothesis may run, so a
+// <script>, an onerror= or a javascript: link in a document does nothing
+// even if one gets in (see rawHtml).
+const DOC_CSP = [
+  `script-src ${[TOC_SCRIPT, LIVE_SCRIPT, PRINT_SCRIPT, EDITOR_SCRIPT].map(scriptHash).join(" ")} https://hypothes.is https://cdn.hypothes.is`,
+  "object-src 'none'",
+  "base-uri 'none'",
+].join("; ");
+
+/** /new: pick a name (and folder) for a document, then edit it. */
+async function newDoc(req: Request, url: URL, token: string | null, rules: AccessRules): Promise<Response> {
+  const editor = resolveToken(token, rules);
+  if (!hasPermission(editor, "edit")) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const form = (slug: string, error = "", status = 200) => {
+    const message = error ? `<p class="error">${escapeHtml(error)}</p>\n` : "";
+    const body = `<a class="back" href="/">&larr; Back</a>
+<h1>New document</h1>
+<div class="admin">
+${message}<form method="post" class="admin-form">
+<label>Name <input name="slug" required value="${escapeHtml(slug)}" placeholder="projects/alpha/results"></label>
+<p class="meta">Folders are created as needed. The name is the document's URL: <code>/projects/alpha/results</code>.</p>
+<button>Create and edit</button>
+</form>
+</div>`;
+    return new Response(layout("New document", body, { annotations: false }), {
+      status,
+      headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  };
+
+  if (req.method !== "POST") {
+    const folder = url.searchParams.get("folder");
+    return form(url.searchParams.get("slug") ?? (folder ? `${folder.replace(/\/+$/, "")}/` : ""));
+  }
+  if (crossOrigin(req, url)) {
+    return new Response("Forbidden", { status: 403 });
+  }
+  const slug = String((await req.formData()).get("slug") ?? "")
+    .trim()
+    .replace(/^\/+|\/+$/g, "");
+  const error = slugError(slug);
+  if (error) return form(slug, error, 400);
+  if (!canEdit(slug, token, rules)) return form(slug, "Your token can't edit documents there", 403);
+  try {
+    await writeDoc(slug, `# ${slug.split("/").pop()}\n`, { create: true });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return form(slug, "There's a document with that name already", 409);
+    console.error(`new: ${slug}:`, err);
+    return form(slug, "The document couldn't be created", 500);
+  }
+  await recordRevision(slug, { kind: "human", user: editor!.label }).catch(() => {});
+  return Response.redirect(`${slugHref(slug)}/edit`, 303);
+}
+
+// ---------------------------------------------------------------------------
+// Live reload
+// ---------------------------------------------------------------------------
+
+const SSE_HEARTBEAT_MS = 15_000;
+
+function liveEvents(req: Request, token: string | null): Response {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const unsubscribe = subscribe(async (event) => {
+        // don't reveal that a restricted doc exists, let alone that it changed
+        if ("slug" in event && !canAccess(event.slug, token, await loadAccess())) return;
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), SSE_HEARTBEAT_MS);
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      req.signal.addEventListener("abort", () => cleanup());
+      write(": connected\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Request handler
+// ---------------------------------------------------------------------------
+
+async function handler(req: Request, server: ReturnType<typeof Bun.serve>): Promise<Response> {
+  const url = new URL(req.url);
+  const path = decodeURIComponent(url.pathname);
+
+  // --- WebSocket upgrade ---
+  if (path === "/ws") {
+    if (!chatEnabled(await loadAccess())) {
+      return new Response("WS auth not configured", { status: 503 });
+    }
+    // Origin check (#7)
+    const origin = req.headers.get("origin");
+    if (ALLOWED_ORIGIN && origin && origin !== ALLOWED_ORIGIN) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    // Concurrency limit (#9), across all users
+    if (sockets.size >= MAX_CHAT_CONNECTIONS) {
       return new Response("Too many connections", { status: 429 });
     }
-    const ok = server.upgrade(req, { data: { authenticated: false } });
+    const ok = server.upgrade(req, { data: { lastSeen: Date.now() } });
     if (!ok) return new Response("WebSocket upgrade failed", { status: 400 });
     return undefined as unknown as Response;
   }
 
   // --- Chat UI ---
   if (path === "/chat") {
-    if (!WS_TOKEN) {
+    if (!chatEnabled(await loadAccess())) {
       return new Response("Chat not configured", { status: 503 });
     }
-    return new Response(chatPage(), {
-      headers: { "Content-Type": "text/html; charset=utf-8" },
+    return new Response(CHAT_PAGE, {
+      headers: { "Content-Type": "text/html; charset=utf-8", "Content-Security-Policy": CHAT_CSP },
     });
   }
 
   const rules = await loadAccess();
   const token = getToken(req, url);
 
-  // --- Index ---
-  if (path === "/") {
-    const docs = (await listDocs()).filter((d) => canAccess(d.slug, token, rules));
-    const items = docs
-      .map(
-        (d) =>
-          `<li><a href="/${encodeURIComponent(d.slug)}">${escapeHtml(d.name)}</a> <span class="meta">${formatDate(d.mtime)}</span></li>`
-      )
-      .join("\n");
-
-    const body =
-      docs.length > 0
-        ? `<h1>Documents</h1>\n<ul class="file-list">\n${items}\n</ul>`
-        : `<h1>Documents</h1>\n<p>No markdown files found in <code>docs/</code>.</p>`;
-
-    return new Response(layout("Documents", body), {
+  // --- Sessions: trade ?t= for a cookie, then redirect to the clean URL ---
+  const secure = url.protocol === "https:" || req.headers.get("x-forwarded-proto") === "https";
+  if (path === "/logout") {
+    return new Response(null, { status: 303, headers: { Location: "/", "Set-Cookie": clearSessionCookie(secure) } });
+  }
+  const queryToken = url.searchParams.get("t");
+  const navigation = req.method === "GET" || req.method === "HEAD";
+  if (queryToken && navigation && !path.startsWith("/api/") && path !== "/events") {
+    if (resolveToken(queryToken, rules)) {
+      const clean = new URL(url);
+      clean.searchParams.delete("t");
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: clean.pathname + clean.search,
+          "Set-Cookie": sessionCookie(queryToken, secure),
+          "Referrer-Policy": "no-referrer",
+        },
+      });
+    }
+  }
+
+  // --- Token admin ---
+  if (path === "/admin/tokens") {
+    return adminTokens(req, url, token, rules);
+  }
+
+  if (path === "/admin/usage") {
+    return adminUsage(req, url, token, rules);
+  }
+
+  // --- Live reload (SSE) — separate from /ws so it never takes the chat slot ---
+  if (path === "/events") {
+    server.timeout(req, 0);
+    return liveEvents(req, token);
+  }
+
+  // --- Search ---
+  if (path === "/search" || path === "/api/search") {
+    const q = url.searchParams.get("q")?.trim() ?? "";
+    const limit = Math.min(Math.max(Number(url.searchParams.get("limit")) || 50, 1), 200);
+    const results = await search(q, { canAccess: (slug) => canAccess(slug, token, rules), limit });
+
+    if (path === "/api/search") {
+      return Response.json({
+        query: q,
+        results: results.map((r) => ({
+          slug: r.slug,
+          name: r.name,
+          url: slugHref(r.slug),
+          mtime: r.mtime.toISOString(),
+          score: r.score,
+          snippet: r.snippet,
+        })),
+      });
+    }
+
+    return new Response(layout(q ? `Search: ${q}` : "Search", searchBody(q, results)), {
       headers: { "Content-Type": "text/html; charset=utf-8" },
     });
   }
 
-  // --- Static assets (images) from docs/ ---
-  const ASSET_EXT: Record<string, string> = {
-    ".png": "image/png",
-    ".jpg": "image/jpeg",
-    ".jpeg": "image/jpeg",
-    ".gif": "image/gif",
-    ".svg": "image/svg+xml",
-    ".webp": "image/webp",
-    ".pdf": "application/pdf",
-  };
+  // --- New document ---
+  if (path === "/new") {
+    return newDoc(req, url, token, rules);
+  }
+
+  // Listings hide restricted docs per token, so with any rules in place they
+  // differ between viewers.
+  const listingRestricted = hasRules(rules);
+
+  // --- Tags ---
+  if (path === "/tags" || path.startsWith("/tags/")) {
+    const tag = normalizeTag(path.slice("/tags/".length).replace(/\/$/, ""));
+    const docs = (await listDocs()).filter((d) => !d.meta.draft && canAccess(d.slug, token, rules));
+
+    if (!tag) {
+      const counts = new Map<string, number>();
+      for (const d of docs) for (const t of d.meta.tags) counts.set(t, (counts.get(t) ?? 0) + 1);
+      const items = [...counts]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([t, n]) => `<li>${renderTags([t])} <span class="meta">${n} doc${n !== 1 ? "s" : ""}</span></li>`)
+        .join("\n");
+      const body = `<a class="back" href="/">&larr; Back</a>\n<h1>Tags</h1>\n${
+        counts.size > 0 ? `<ul class="file-list">\n${items}\n</ul>` : "<p>No tagged documents.</p>"
+      }`;
+      return htmlResponse(req, layout("Tags", body, { live: "index" }), {
+        lastModified: newestMtime(docs),
+        restricted: listingRestricted,
+      });
+    }
+
+    const tagged = docs.filter((d) => d.meta.tags.includes(tag));
+    if (tagged.length === 0) {
+      return new Response("Not found", { status: 404 });
+    }
+    const body = `<nav class="breadcrumbs"><a href="/">Documents</a> <span class="sep">/</span> <a href="/tags">tags</a></nav>
+<h1>#${escapeHtml(tag)}</h1>
+<ul class="file-list">
+${tagged.map(renderDocItem).join("\n")}
+</ul>`;
+    return htmlResponse(req, layout(`#${tag}`, body, { live: "index" }), {
+      lastModified: newestMtime(tagged),
+      restricted: listingRestricted,
+    });
+  }
+
+  // --- Link graph ---
+  if (path === "/graph" || path === "/api/graph") {
+    const graph = await linkGraph(rules);
+    const visible = visibleGraph(graph, token, rules);
+    if (path === "/api/graph") {
+      return Response.json(visible);
+    }
+    return htmlResponse(req, layout("Link graph", graphBody(visible)), {
+      lastModified: newestMtime(graph.docs.filter((d) => visible.nodes.some((n) => n.slug === d.slug))),
+      restricted: listingRestricted,
+    });
+  }
+
+  // --- Index (root or a folder, e.g. /projects/alpha/) ---
+  if (path.endsWith("/")) {
+    const folder = path.slice(1, -1);
+    if (folder.includes("\0") || folder.split("/").some((seg) => seg.startsWith("."))) {
+      return new Response("Not found", { status: 404 });
+    }
+    const docs = (await listDocs()).filter((d) => !d.meta.draft && canAccess(d.slug, token, rules));
+    const tree = buildTree(docs, folder);
+    const empty = tree.folders.length === 0 && tree.docs.length === 0;
+    if (folder && empty) {
+      return new Response("Not found", { status: 404 });
+    }
+
+    const title = folder ? folder.split("/").pop()! : "Documents";
+    const heading = folder
+      ? `${breadcrumbs(folder)}\n<h1>${escapeHtml(title)}</h1>\n${newDocNote(folder, token, rules)}`
+      : `<h1>Documents</h1>\n${sessionNote(token, rules)}${searchForm("")}\n<p class="meta"><a href="/graph">Link graph</a></p>`;
+    const body = empty
+      ? `${heading}\n<p>No markdown files found in <code>docs/</code>.</p>`
+      : `${heading}\n${renderTree(tree)}`;
+
+    return htmlResponse(req, layout(title, body, { live: "index" }), {
+      lastModified: newestMtime(docs.filter((d) => !folder || d.slug.startsWith(folder + "/"))),
+      restricted: listingRestricted,
+    });
+  }
+
+  // --- Export: /:slug.html (standalone bundle) and /:slug.pdf ---
+  // A real PDF in docs/ wins over the generated one.
+  const exportMatch = path.match(/^\/(.+)\.(html|pdf)$/);
+  const realPdf = exportMatch?.[2] === "pdf" && (await resolveInDocs(path.slice(1)).then(() => true, () => false));
+  if (exportMatch && !realPdf) {
+    const [, slug, format] = exportMatch;
+    const allowed = canAccess(slug, token, rules);
+    audit(req, server, slug, token, rules, allowed);
+    if (!allowed) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    let resolved: string;
+    try {
+      resolved = await resolveInDocs(`${slug}.md`);
+    } catch {
+      return new Response("Not found", { status: 404 });
+    }
+    const name = slug.split("/").pop()!;
+    const restricted = isRestricted(slug, rules);
+    const cacheControl = restricted ? "private, no-cache" : "no-cache";
+    const refs = await assetReferences();
+    const canRead = (asset: string) => assetAccess(asset, refs.get(asset) ?? [], token, rules).allowed;
+    const { index } = await linkGraph(rules);
+
+    if (format === "html") {
+      const headers: Record<string, string> = {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": cacheControl,
+        "Content-Security-Policy": DOC_CSP,
+      };
+      if (url.searchParams.has("download")) headers["Content-Disposition"] = contentDisposition("attachment", `${name}.html`);
+      return new Response(await exportPage(slug, resolved, index, canRead, url.searchParams.has("print")), { headers });
+    }
+
+    const html = await exportPage(slug, resolved, index, canRead);
+    const key = etagFor(html);
+    let pdf = pdfCache.get(key) ?? null;
+    if (!pdf) {
+      try {
+        pdf = await htmlToPdf(html);
+      } catch (err) {
+        console.error(`pdf: ${slug}:`, err);
+        return new Response("PDF export failed", { status: 500 });
+      }
+      if (pdf) pdfCache.set(key, pdf);
+    }
+    if (!pdf) {
+      // no browser on this server — hand over the print-ready page instead
+      const params = new URLSearchParams(url.search);
+      params.set("print", "");
+      return Response.redirect(`${slugHref(slug)}.html?${params}`, 302);
+    }
+    return new Response(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": contentDisposition("inline", `${name}.pdf`),
+        "Cache-Control": cacheControl,
+      },
+    });
+  }
+
+  // --- Static assets (images, PDFs) from docs/ ---
+  // Guarded by their own rules and by the docs that embed or link to them.
   const assetName = path.slice(1);
-  const ext = assetName.includes(".") ? assetName.slice(assetName.lastIndexOf(".")).toLowerCase() : "";
-  if (ext in ASSET_EXT && !assetName.includes("\0")) {
-    const assetPath = join(DOCS_DIR, assetName);
+  const ext = assetExt(assetName);
+  if (ext in ASSET_EXT) {
+    const refs = await assetReferences();
+    const { restricted, allowed } = assetAccess(assetName, refs.get(assetName) ?? [], token, rules);
+    audit(req, server, assetName, token, rules, allowed, restricted);
+    if (!allowed) {
+      return new Response("Unauthorized", { status: 401 });
+    }
     try {
-      const resolved = await realpath(assetPath);
-      const docsReal = await realpath(DOCS_DIR);
-      if (!resolved.startsWith(docsReal + "/")) throw new Error("outside docs");
+      const resolved = await resolveInDocs(assetName);
       const data = await readFile(resolved);
       return new Response(data, {
-        headers: { "Content-Type": ASSET_EXT[ext], "Cache-Control": "public, max-age=3600" },
+        headers: {
+          "Content-Type": ASSET_EXT[ext],
+          "Cache-Control": restricted ? "private, max-age=3600" : "public, max-age=3600",
+        },
       });
     } catch {
       return new Response("Not found", { status: 404 });
     }
   }
 
+  // --- Revision history and editing: /:slug/history, /:slug/edit ---
+  // A real docs/{slug}/history.md (or edit.md) wins over them.
+  const docPageMatch = path.match(/^\/(.+)\/(history|edit)$/);
+  if (docPageMatch && !(await resolveInDocs(`${path.slice(1)}.md`).then(() => true, () => false))) {
+    const [, slug, page] = docPageMatch;
+    if (!isValidPath(`${slug}.md`)) {
+      return new Response("Not found", { status: 404 });
+    }
+    const allowed = canAccess(slug, token, rules);
+    audit(req, server, slug, token, rules, allowed);
+    if (!allowed) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    return page === "edit" ? docEditor(req, url, slug, token, rules) : docHistory(req, url, slug, token, rules);
+  }
+
   // --- Document page ---
   const slug = path.slice(1); // strip leading /
-  if (slug.includes("/") || slug.includes("\0")) {
+  if (!isValidPath(`${slug}.md`)) {
     return new Response("Not found", { status: 404 });
   }
 
-  if (!canAccess(slug, token, rules)) {
+  const allowed = canAccess(slug, token, rules);
+  audit(req, server, slug, token, rules, allowed);
+  if (!allowed) {
     return new Response("Unauthorized", { status: 401 });
   }
 
-  const filePath = join(DOCS_DIR, `${slug}.md`);
-
-  let md: string;
+  let resolved: string;
+  let st: Awaited<ReturnType<typeof stat>>;
   try {
-    // realpath follows symlinks — validate it's still inside docs/
-    const resolved = await realpath(filePath);
-    const docsReal = await realpath(DOCS_DIR);
-    if (!resolved.startsWith(docsReal + "/")) throw new Error("outside docs");
-    md = await readFile(resolved, "utf-8");
+    resolved = await resolveInDocs(`${slug}.md`);
+    st = await stat(resolved);
   } catch {
-    return new Response(layout("Not Found", `<h1>404</h1><p>File not found.</p><a class="back" href="/">&larr; Back</a>`), {
+    // /projects/alpha → /projects/alpha/ when it names a folder rather than a
+    // doc, counting only what the folder page would list: a folder of docs
+    // the viewer can't open gets the same 404 as one that doesn't exist
+    const docs = (await listDocs()).filter((d) => !d.meta.draft && canAccess(d.slug, token, rules));
+    if (docs.some((d) => d.slug.startsWith(slug + "/"))) {
+      return Response.redirect(`${slugHref(slug)}/${url.search}`, 301);
+    }
+    // a deleted doc still has its history
+    const deleted = (await listRevisions(slug).catch(() => [])).length > 0;
+    const history = deleted ? ` It was deleted; <a href="${slugHref(slug)}/history">see its history</a>.` : "";
+    return new Response(layout("Not Found", `<h1>404</h1><p>File not found.${history}</p><a class="back" href="/">&larr; Back</a>`), {
       status: 404,
       headers: { "Content-Type": "text/html; charset=utf-8" },
     });
   }
 
-  const html = await marked.parse(md);
-  const body = `<a class="back" href="/">&larr; Back</a>\n<article class="article">\n${html}\n</article>`;
+  const graph = await linkGraph(rules);
+  const chat = chatEnabled(rules);
+  const cacheKey = `${resolved}\0${slug}`;
+  let page = renderCache.get(cacheKey);
+  if (!page || page.mtimeMs !== st.mtimeMs || page.size !== st.size || page.links !== graph.version || page.chat !== chat) {
+    const { meta, html, toc } = await renderDoc(slug, resolved, graph.index);
+    const contents = renderToc(toc, meta.toc);
+    const body = `${docActions(slug, chat)}${breadcrumbs(slug, meta.title)}\n${docHeader(meta)}${contents}<article class="article">\n${html}\n</article>\n${BACKLINKS}`;
+    const full = layout(meta.title ?? slug, body, { live: "doc", annotations: meta.annotations, toc: contents !== "" });
+    page = { mtimeMs: st.mtimeMs, size: st.size, links: graph.version, chat, html: full, etag: etagFor(full) };
+    renderCache.set(cacheKey, page);
+  }
 
-  return new Response(layout(slug, body), {
-    headers: { "Content-Type": "text/html; charset=utf-8" },
+  // backlinks differ between viewers, so they're added after the cache
+  const linkedFrom = visibleBacklinks(graph, slug, token, rules);
+  const at = page.html.lastIndexOf(BACKLINKS);
+  const html = page.html.slice(0, at) + renderBacklinks(linkedFrom) + page.html.slice(at + BACKLINKS.length);
+  return htmlResponse(req, html, {
+    etag: linkedFrom.length > 0 ? etagFor(html) : page.etag,
+    lastModified: new Date(Math.max(st.mtime.getTime(), ...linkedFrom.map((d) => d.mtime.getTime()))),
+    restricted: isRestricted(slug, rules) || (linkedFrom.length > 0 && hasRules(rules)),
+    csp: true,
   });
 }
 
@@ -610,46 +3440,22 @@ Bun.serve<WSData>({
   fetch: handler,
   websocket: {
     open(ws) {
-      activeWsCount++;
-      console.log(`ws: connected (active: ${activeWsCount})`);
+      sockets.add(ws);
+      console.log(`ws: connected (active: ${sockets.size})`);
     },
     async message(ws, raw) {
-      const text = typeof raw === "string" ? raw : new TextDecoder().decode(raw);
-
+      ws.data.lastSeen = Date.now();
+      const msg = parseClientMessage(typeof raw === "string" ? raw : new TextDecoder().decode(raw));
+      const client = ws.data.client;
       // First message must be auth
-      if (!ws.data.authenticated) {
-        try {
-          const msg = JSON.parse(text);
-          if (msg.type === "auth" && typeof msg.token === "string" && checkToken(msg.token)) {
-            ws.data.authenticated = true;
-            ws.sendText(JSON.stringify({ type: "auth-ok" }));
-            console.log("ws: authenticated");
-            return;
-          }
-        } catch {}
-        console.log("ws: auth failed, closing");
-        ws.close(4401, "Invalid token");
-        return;
-      }
-
-      try {
-        for await (const event of chat(text, ws.data.sessionId)) {
-          ws.sendText(JSON.stringify(event));
-          if (event.type === "done") {
-            ws.data.sessionId = event.session_id;
-          }
-        }
-      } catch (err) {
-        ws.sendText(JSON.stringify({
-          type: "error",
-          message: err instanceof Error ? err.message : "Unknown error",
-          recoverable: false,
-        }));
-      }
+      if (!client) return signIn(ws, msg);
+      if (!msg) return send(client, { type: "error", message: "Invalid message", recoverable: true });
+      await handleClientMessage(client, msg);
     },
     close(ws) {
-      activeWsCount--;
-      console.log(`ws: disconnected (active: ${activeWsCount})`);
+      sockets.delete(ws);
+      if (ws.data.client) detach(ws.data.client);
+      console.log(`ws: disconnected (active: ${sockets.size})`);
     },
   },
 });
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import { Marked } from "marked";
+import { headingExtension, headingIds, renderToc, slugify, type TocEntry } from "./toc";
+
+function render(md: string): { html: string; toc: TocEntry[] } {
+  const toc: TocEntry[] = [];
+  const html = new Marked(headingExtension()).parse(md, { async: false, walkTokens: headingIds(toc) });
+  return { html, toc };
+}
+
+describe("slugify", () => {
+  test.each([
+    ["Method & data", "method--data"],
+    ["  Hello World  ", "hello-world"],
+    ["Ünïcode 日本語", "ünïcode-日本語"],
+    ["snake_case and-dashes", "snake_case-and-dashes"],
+    ["!!!", "section"],
+  ])("%s → %s", (text, id) => {
+    expect(slugify(text)).toBe(id);
+  });
+});
+
+describe("heading ids", () => {
+  test("repeated headings get -1, -2, and never an id that's taken", () => {
+    const { html, toc } = render("## Method\n\n## Method\n\n## Method 1\n\n## Method\n");
+    expect(toc.map((e) => e.id)).toEqual(["method", "method-1", "method-1-1", "method-2"]);
+    expect(html).toContain(`<h2 id="method-1">Method<a class="anchor" href="#method-1" aria-label="Link to this section"></a></h2>`);
+  });
+
+  test("ids come from the text, not the markup", () => {
+    const { toc } = render("# **Bold** `code` and [a link](/x)\n");
+    expect(toc).toEqual([{ depth: 1, id: "bold-code-and-a-link", text: "Bold code and a link" }]);
+  });
+
+  test("ids are unique per render", () => {
+    render("## Method\n");
+    expect(render("## Method\n").toc[0].id).toBe("method");
+  });
+});
+
+describe("table of contents", () => {
+  const entries = (md: string) => render(md).toc;
+
+  test("appears once there are enough headings, leaving out a lone h1", () => {
+    const html = renderToc(entries("# Title\n## A\n### B\n## C\n"), undefined);
+    expect(html).toContain(`<li class="toc-1"><a href="#a">A</a></li>`);
+    expect(html).toContain(`<li class="toc-2"><a href="#b">B</a></li>`);
+    expect(html).not.toContain("#title");
+  });
+
+  test("front matter turns it on or off", () => {
+    expect(renderToc(entries("## A\n## B\n"), undefined)).toBe("");
+    expect(renderToc(entries("## A\n## B\n"), true)).toContain(`href="#a"`);
+    expect(renderToc(entries("## A\n## B\n## C\n## D\n"), false)).toBe("");
+  });
+
+  test("skips headings below h3", () => {
+    expect(renderToc(entries("## A\n#### Deep\n## B\n## C\n"), undefined)).not.toContain("Deep");
+  });
+});
@@ -0,0 +1,93 @@
+import type { MarkedExtension, Token, Tokens } from "marked";
+import { escapeHtml } from "./html";
+
+// ---------------------------------------------------------------------------
+// Heading ids
+// ---------------------------------------------------------------------------
+//
+// Every heading gets an id from its text, GitHub-style: "Method & data" is
+// #method--data, and a second "Method" is #method-1. A permalink after the
+// heading text shows on hover. It has no text of its own (the "#" is CSS), so
+// the article's text — what Hypothesis anchors annotations to — is unchanged.
+
+export interface TocEntry {
+  depth: number;
+  id: string;
+  text: string;
+}
+
+interface HeadingToken extends Tokens.Heading {
+  id?: string; // set by headingIds()
+}
+
+/** The id a heading with this text gets, before de-duplication. */
+export function slugify(text: string): string {
+  return (
+    text
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+      .replace(/\s/g, "-") || "section"
+  );
+}
+
+/** A heading's text without markup: "**Bold** `code`" is "Bold code". */
+function plainText(tokens: Token[]): string {
+  return tokens.map((t) => ("tokens" in t && t.tokens ? plainText(t.tokens) : "text" in t ? String(t.text) : "")).join("");
+}
+
+/**
+ * A walkTokens callback giving each heading in one document its id, and
+ * listing the headings in `toc` as it goes. Make a fresh one per render, so
+ * ids are unique within the page.
+ */
+export function headingIds(toc: TocEntry[]) {
+  const used = new Set<string>();
+  return (token: Token) => {
+    if (token.type !== "heading") return;
+    const text = plainText(token.tokens ?? []).trim();
+    const base = slugify(text);
+    let id = base;
+    for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    (token as HeadingToken).id = id;
+    toc.push({ depth: token.depth, id, text });
+  };
+}
+
+export function headingExtension(): MarkedExtension {
+  return {
+    renderer: {
+      heading(token) {
+        const { id, depth } = token as HeadingToken;
+        if (!id) return false;
+        const text = this.parser.parseInline(token.tokens);
+        return `<h${depth} id="${escapeHtml(id)}">${text}<a class="anchor" href="#${escapeHtml(id)}" aria-label="Link to this section"></a></h${depth}>\n`;
+      },
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Table of contents
+// ---------------------------------------------------------------------------
+
+// Shown by default once a document has this many headings; front matter
+// `toc: true` shows it for any, `toc: false` never.
+const TOC_MIN_HEADINGS = 3;
+
+/**
+ * The table of contents, or "" if this document doesn't get one. It lists
+ * h1–h3, indented by level; a lone h1 is the document's title rather than a
+ * section, so it's left out. `setting` is the front matter's `toc`.
+ */
+export function renderToc(toc: TocEntry[], setting: boolean | undefined): string {
+  let entries = toc.filter((e) => e.depth <= 3);
+  if (entries.filter((e) => e.depth === 1).length === 1) entries = entries.filter((e) => e.depth !== 1);
+  if (entries.length === 0 || !(setting ?? entries.length >= TOC_MIN_HEADINGS)) return "";
+  const top = Math.min(...entries.map((e) => e.depth));
+  const items = entries
+    .map((e) => `<li class="toc-${e.depth - top + 1}"><a href="#${escapeHtml(e.id)}">${escapeHtml(e.text)}</a></li>`)
+    .join("\n");
+  return `<details class="toc">\n<summary>Contents</summary>\n<ul>\n${items}\n</ul>\n</details>\n`;
+}
@@ -0,0 +1,96 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { DATA_DIR } from "./docs";
+
+// ---------------------------------------------------------------------------
+// Chat spend
+// ---------------------------------------------------------------------------
+//
+// data/usage.jsonl — one line per chat turn that reported a cost: who ran
+// it, in which conversation, and what it cost. Loaded once, then kept in
+// memory; budgets are checked against it before every turn.
+
+const USAGE_FILE = join(DATA_DIR, "usage.jsonl");
+
+export interface UsageEntry {
+  time: string;
+  user: string; // token id, or "owner" for WS_TOKEN
+  name: string; // the user's label at the time
+  conversation: string;
+  cost: number; // USD
+}
+
+export interface UserUsage {
+  user: string;
+  name: string;
+  today: number;
+  month: number;
+  total: number;
+  turns: number;
+  last: string; // time of the latest turn
+}
+
+let loaded: Promise<UsageEntry[]> | null = null;
+
+function entries(): Promise<UsageEntry[]> {
+  loaded ??= readFile(USAGE_FILE, "utf-8").then(
+    (text) =>
+      text.split("\n").flatMap((line) => {
+        try {
+          return line ? [JSON.parse(line) as UsageEntry] : [];
+        } catch {
+          return []; // torn last line after a crash
+        }
+      }),
+    () => [],
+  );
+  return loaded;
+}
+
+/** Add a turn's cost. Saving never interrupts the chat; the turn still counts in memory. */
+export async function recordUsage(entry: Omit<UsageEntry, "time">): Promise<void> {
+  const e: UsageEntry = { time: new Date().toISOString(), ...entry };
+  (await entries()).push(e);
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    await appendFile(USAGE_FILE, JSON.stringify(e) + "\n", { mode: 0o600 });
+  } catch (err) {
+    console.error("usage:", err);
+  }
+}
+
+// ISO timestamps start with the UTC date, so days and months are prefixes.
+function periods(): { day: string; month: string } {
+  const now = new Date().toISOString();
+  return { day: now.slice(0, 10), month: now.slice(0, 7) };
+}
+
+/** What a user has spent today and this month (UTC). */
+export async function spending(user: string): Promise<{ today: number; month: number }> {
+  const { day, month } = periods();
+  let today = 0;
+  let thisMonth = 0;
+  for (const e of await entries()) {
+    if (e.user !== user || !e.time.startsWith(month)) continue;
+    thisMonth += e.cost;
+    if (e.time.startsWith(day)) today += e.cost;
+  }
+  return { today, month: thisMonth };
+}
+
+/** Spend per user, biggest this month first. */
+export async function usageByUser(): Promise<UserUsage[]> {
+  const { day, month } = periods();
+  const users = new Map<string, UserUsage>();
+  for (const e of await entries()) {
+    let u = users.get(e.user);
+    if (!u) users.set(e.user, (u = { user: e.user, name: e.name, today: 0, month: 0, total: 0, turns: 0, last: e.time }));
+    u.name = e.name;
+    u.last = e.time;
+    u.turns++;
+    u.total += e.cost;
+    if (e.time.startsWith(month)) u.month += e.cost;
+    if (e.time.startsWith(day)) u.today += e.cost;
+  }
+  return [...users.values()].sort((a, b) => b.month - a.month || b.total - a.total);
+}
@@ -0,0 +1,120 @@
+import { watch, type FSWatcher } from "node:fs";
+import { realpath } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { DOCS_DIR, listDocs } from "./docs";
+import type { LiveEvent } from "./protocol";
+
+// ---------------------------------------------------------------------------
+// Watching docs/
+// ---------------------------------------------------------------------------
+//
+// File system events are only used as a hint that something changed. Each
+// burst of events triggers a rescan with listDocs(), and the new snapshot is
+// diffed against the last one — so editors that save via rename, symlinked
+// files and missed events all end up producing the same LiveEvents.
+
+type Listener = (event: LiveEvent) => void | Promise<void>;
+
+const listeners = new Set<Listener>();
+const targetWatchers = new Map<string, FSWatcher>(); // real dir → watcher
+let rootWatcher: FSWatcher | null = null;
+let snapshot = new Map<string, number>(); // slug → mtime
+let timer: ReturnType<typeof setTimeout> | null = null;
+let scanning: Promise<void> = Promise.resolve(); // rescans run one at a time
+
+const DEBOUNCE_MS = 100;
+
+/** Receive LiveEvents for docs/. Returns an unsubscribe function. */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  start();
+  return () => listeners.delete(listener);
+}
+
+function emit(event: LiveEvent): void {
+  for (const listener of listeners) {
+    try {
+      // an async listener fails later, as a rejection rather than a throw
+      listener(event)?.catch((err) => console.error("watch: listener failed", err));
+    } catch (err) {
+      console.error("watch: listener failed", err);
+    }
+  }
+}
+
+function start(): void {
+  if (rootWatcher) return;
+  try {
+    rootWatcher = watch(DOCS_DIR, { recursive: true }, schedule);
+  } catch (err) {
+    console.error("watch: cannot watch docs/", err);
+    return;
+  }
+  queueRescan(false);
+}
+
+function schedule(): void {
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(() => {
+    timer = null;
+    queueRescan(true);
+  }, DEBOUNCE_MS);
+}
+
+function queueRescan(notify: boolean): void {
+  scanning = scanning.then(() => rescan(notify)).catch((err) => console.error("watch: rescan failed", err));
+}
+
+async function rescan(notify: boolean): Promise<void> {
+  const docs = await listDocs();
+  const next = new Map(docs.map((d) => [d.slug, d.mtime.getTime()]));
+
+  if (notify) {
+    // the index shows dates and is sorted by mtime, so edits change it too
+    let indexChanged = next.size !== snapshot.size;
+    for (const [slug, mtime] of next) {
+      if (snapshot.get(slug) === mtime) continue;
+      emit({ type: "doc-changed", slug }); // edited, or new
+      indexChanged = true;
+    }
+    for (const slug of snapshot.keys()) {
+      if (!next.has(slug)) emit({ type: "doc-removed", slug });
+    }
+    if (indexChanged) emit({ type: "index-changed" });
+  }
+  snapshot = next;
+  await syncTargetWatchers(docs.map((d) => d.slug));
+}
+
+/**
+ * The recursive watcher doesn't follow symlinks, so an edit to a symlinked
+ * doc's target would go unnoticed. Watch each target's directory as well.
+ */
+async function syncTargetWatchers(slugs: string[]): Promise<void> {
+  const docsReal = await realpath(DOCS_DIR).catch(() => DOCS_DIR);
+  const wanted = new Set<string>();
+  for (const slug of slugs) {
+    const linkPath = join(DOCS_DIR, `${slug}.md`);
+    try {
+      const real = await realpath(linkPath);
+      if (real !== join(docsReal, `${slug}.md`)) wanted.add(dirname(real));
+    } catch {
+      // vanished between listDocs() and now — the next rescan will catch it
+    }
+  }
+
+  for (const [dir, watcher] of targetWatchers) {
+    if (!wanted.has(dir)) {
+      watcher.close();
+      targetWatchers.delete(dir);
+    }
+  }
+  for (const dir of wanted) {
+    if (targetWatchers.has(dir)) continue;
+    try {
+      targetWatchers.set(dir, watch(dir, schedule));
+    } catch (err) {
+      console.error(`watch: cannot watch ${dir}`, err);
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Subprocess } from "bun";
+import { PROTOCOL_VERSION, type Sequenced, type ServerEvent } from "./protocol";
+
+// End to end: a real server on its own port and data directory, answering
+// with the scripted provider from fixtures/chat-script.jsonl, driven over /ws.
+
+const PORT = 3199;
+const TOKEN = "test-token";
+const MAX_CONNECTIONS = 3;
+
+let server: Subprocess;
+let dataDir: string;
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), "md-server-"));
+  server = Bun.spawn(["bun", "run", "server.ts"], {
+    cwd: import.meta.dir,
+    env: {
+      ...process.env,
+      PORT: String(PORT),
+      WS_TOKEN: TOKEN,
+      DATA_DIR: dataDir,
+      CHAT_PROVIDER: "scripted",
+      CHAT_SCRIPT: join(import.meta.dir, "fixtures", "chat-script.jsonl"),
+      CHAT_MAX_CONNECTIONS: String(MAX_CONNECTIONS),
+      CHAT_DAILY_BUDGET: "",
+      CHAT_MONTHLY_BUDGET: "",
+    },
+    stdout: "ignore",
+    stderr: "inherit",
+  });
+  for (let i = 0; i < 100; i++) {
+    if (await fetch(`http://localhost:${PORT}/chat`).then((r) => r.ok, () => false)) return;
+    await Bun.sleep(100);
+  }
+  throw new Error("server didn't start");
+});
+
+afterAll(async () => {
+  server.kill();
+  await server.exited;
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+// ---------------------------------------------------------------------------
+// A test client
+// ---------------------------------------------------------------------------
+
+type Event = ServerEvent & { seq?: number };
+
+// Everything after sign-in is numbered, except pings.
+type Received<T extends Event["type"]> = T extends "auth-ok" | "ping" ? Extract<Event, { type: T }> : Sequenced<Extract<ServerEvent, { type: T }>>;
+
+interface Client {
+  ws: WebSocket;
+  events: Event[];
+  send(msg: object | string): void;
+  /** The next event of this type not yet waited for. */
+  next<T extends Event["type"]>(type: T): Promise<Received<T>>;
+  closed: Promise<number>; // the close code
+  close(): Promise<number>;
+}
+
+const open: Client[] = [];
+
+afterEach(async () => {
+  await Promise.all(open.splice(0).map((c) => c.close()));
+});
+
+function connect(): Client {
+  const ws = new WebSocket(`ws://localhost:${PORT}/ws`);
+  const events: Event[] = [];
+  let cursor = 0;
+  let wake = () => {};
+  ws.onmessage = (e) => {
+    const event: Event = JSON.parse(String(e.data));
+    if (event.type === "ping") ws.send(JSON.stringify({ type: "pong" }));
+    events.push(event);
+    wake();
+  };
+  const closed = new Promise<number>((resolve) => (ws.onclose = (e) => (resolve(e.code), wake())));
+  const opened = new Promise((resolve) => (ws.onopen = resolve));
+  const client: Client = {
+    ws,
+    events,
+    send: (msg) => void opened.then(() => ws.send(typeof msg === "string" ? msg : JSON.stringify(msg))),
+    async next(type) {
+      const deadline = Date.now() + 4000;
+      for (;;) {
+        const i = events.findIndex((e, j) => j >= cursor && e.type === type);
+        if (i !== -1) {
+          cursor = i + 1;
+          return events[i] as Received<typeof type>;
+        }
+        if (ws.readyState === WebSocket.CLOSED || Date.now() > deadline) throw new Error(`no "${type}" event`);
+        await Promise.race([new Promise<void>((resolve) => (wake = resolve)), Bun.sleep(100)]);
+      }
+    },
+    closed,
+    close() {
+      if (ws.readyState !== WebSocket.CLOSED) ws.close();
+      return closed;
+    },
+  };
+  open.push(client);
+  return client;
+}
+
+async function signIn(resume?: { resume: string; after: number }): Promise<Client> {
+  const c = connect();
+  c.send({ type: "auth", token: TOKEN, version: PROTOCOL_VERSION, ...resume });
+  const ok = await c.next("auth-ok");
+  if (!ok.resumed) await c.next("usage"); // the last of the sign-in events
+  return c;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("auth", () => {
+  test("a wrong token closes with 4401", async () => {
+    const c = connect();
+    c.send({ type: "auth", token: "nope", version: PROTOCOL_VERSION });
+    expect(await c.closed).toBe(4401);
+  });
+
+  test("anything but auth first closes with 4401", async () => {
+    const c = connect();
+    c.send({ type: "prompt", text: "hello" });
+    expect(await c.closed).toBe(4401);
+  });
+
+  test("another protocol version closes with 4400", async () => {
+    const c = connect();
+    c.send({ type: "auth", token: TOKEN, version: PROTOCOL_VERSION - 1 });
+    expect(await c.closed).toBe(4400);
+  });
+
+  test("signing in sends the state the page needs", async () => {
+    const c = await signIn();
+    expect(c.events.map((e) => e.type)).toEqual(["auth-ok", "profiles", "conversations", "docs", "usage"]);
+    expect(c.events[0]).toMatchObject({ version: PROTOCOL_VERSION, resumed: false, busy: false });
+    expect(c.events.slice(1).map((e) => e.seq)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("connections", () => {
+  test(`more than ${MAX_CONNECTIONS} at once get 429`, async () => {
+    for (let i = 0; i < MAX_CONNECTIONS; i++) await signIn();
+    const res = await fetch(`http://localhost:${PORT}/ws`, {
+      headers: { Upgrade: "websocket", Connection: "Upgrade", "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==", "Sec-WebSocket-Version": "13" },
+    });
+    expect(res.status).toBe(429);
+  });
+
+  test("frames that aren't a known message get an error", async () => {
+    const c = await signIn();
+    c.send("not json");
+    expect(await c.next("error")).toMatchObject({ message: "Invalid message", recoverable: true });
+    c.send({ type: "open", id: 42 });
+    expect(await c.next("error")).toMatchObject({ message: "Invalid message" });
+    c.send({ type: "launch" });
+    expect(await c.next("error")).toMatchObject({ message: "Invalid message" });
+  });
+});
+
+describe("turns", () => {
+  test("a reply streams, renders and is saved", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "hello" });
+    const started = await c.next("conversation-started");
+    expect(await c.next("prompt")).toMatchObject({ text: "hello" });
+    expect((await c.next("text-delta")).delta).toBe("Hi ");
+    expect((await c.next("text-html")).html).toContain("<strong>welcome</strong>");
+    expect(await c.next("done")).toMatchObject({ cost: 0.001, turns: 1 });
+    expect((await c.next("usage")).today).toBeGreaterThanOrEqual(0.001);
+
+    const seqs = c.events.flatMap((e) => e.seq ?? []);
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+
+    const d = await signIn();
+    d.send({ type: "open", id: started.id });
+    const saved = await d.next("conversation");
+    expect(saved.entries.map((e) => e.type)).toEqual(["prompt", "text-html", "done"]);
+  });
+
+  test("a denied tool call is reported as the tool's error", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "fix the typo in the example doc" });
+    const request = await c.next("permission-request");
+    expect(request).toMatchObject({ name: "Edit", rule: "Edit" });
+    c.send({ type: "permission", id: request.id, decision: "deny" });
+    expect(await c.next("permission-resolved")).toMatchObject({ id: request.id, decision: "deny" });
+    expect(await c.next("tool-result")).toMatchObject({ id: request.id, isError: true, output: "The user denied this tool call." });
+    await c.next("done");
+    expect(c.events.some((e) => e.type === "doc-edited")).toBe(false);
+  });
+
+  test("an allowed edit of a doc links to it", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "fix the typo in the example doc" });
+    const request = await c.next("permission-request");
+    c.send({ type: "permission", id: request.id, decision: "allow" });
+    expect(await c.next("tool-result")).toMatchObject({ isError: false });
+    expect(await c.next("doc-edited")).toMatchObject({ slug: "example" });
+    await c.next("done");
+  });
+
+  test("Stop cancels the turn", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "take your time" });
+    await c.next("text-delta");
+    c.send({ type: "cancel" });
+    await c.next("cancelled");
+    expect(c.events.some((e) => e.type === "done")).toBe(false);
+  });
+
+  test("follow-ups queue behind the running turn", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "take your time" });
+    await c.next("text-delta");
+    c.send({ type: "prompt", text: "hello" });
+    expect((await c.next("queue")).prompts).toEqual(["hello"]);
+    await c.next("done");
+    await c.next("done");
+    expect(c.events.filter((e) => e.type === "prompt").map((e) => e.text)).toEqual(["take your time", "hello"]);
+  });
+
+  test("an agent that crashes ends the turn with an error", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "crash" });
+    expect(await c.next("error")).toMatchObject({ message: "agent process exited with code 1", recoverable: false });
+  });
+
+  test("a turn that runs out of budget is still paid for", async () => {
+    const c = await signIn();
+    const before = c.events.findLast((e) => e.type === "usage")!.today;
+    c.send({ type: "prompt", text: "spend it all" });
+    expect(await c.next("error")).toMatchObject({ message: "error_max_budget_usd", cost: 0.5 });
+    expect((await c.next("usage")).today).toBeCloseTo(before + 0.5);
+  });
+
+  test("an unscripted prompt gets the fallback reply", async () => {
+    const c = await signIn();
+    c.send({ type: "prompt", text: "what's the weather?" });
+    expect((await c.next("text-delta")).delta).toContain("no scripted reply");
+    await c.next("done");
+  });
+});
+
+describe("resume", () => {
+  test("a dropped connection picks the turn up where it stopped", async () => {
+    const c = await signIn();
+    const { resume } = c.events.find((e) => e.type === "auth-ok")!;
+    c.send({ type: "prompt", text: "take your time" });
+    const last = (await c.next("text-delta")).seq;
+    await c.close();
+
+    const d = await signIn({ resume, after: last });
+    expect(d.events[0]).toMatchObject({ resume, resumed: true, busy: true });
+    const done = await d.next("done");
+    expect(done.seq).toBeGreaterThan(last);
+    expect(d.events.every((e) => e.seq === undefined || e.seq > last)).toBe(true);
+  });
+
+  test("an unknown resume token starts afresh", async () => {
+    const c = await signIn({ resume: "nope", after: 10 });
+    expect(c.events[0]).toMatchObject({ resumed: false });
+    expect(c.events.find((e) => e.type === "auth-ok")!.resume).not.toBe("nope");
+  });
+});